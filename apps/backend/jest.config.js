@@ -5,6 +5,7 @@ module.exports = {
   preset: 'ts-jest',
   testEnvironment: 'node',
   roots: ['<rootDir>/src'],
+  setupFiles: ['<rootDir>/src/tests/setup.ts'],
   transform: {
     '^.+\\.tsx?$': 'ts-jest',
   },
@@ -1,5 +1,4 @@
 import { config } from 'dotenv';
-import { mnemonic } from '@vechain/sdk-core';
 import { ValidateEnv } from '@utils/validateEnv';
 config({ path: `.env.${process.env.NODE_ENV || 'development'}.local` });
 
@@ -9,9 +8,28 @@ export const CREDENTIALS = process.env.CREDENTIALS === 'true';
 export const { NODE_ENV, PORT, LOG_FORMAT, LOG_DIR, ORIGIN } = validatedEnv;
 
 export const { OPENAI_API_KEY } = validatedEnv;
+export const { VISION_PROVIDER, VISION_MODEL, VISION_BASE_URL, VISION_API_KEY, VISION_STUB_VALIDITY_FACTOR } = validatedEnv;
+export const { VISION_MAX_RETRIES } = validatedEnv;
 export const { MAX_FILE_SIZE } = validatedEnv;
-export const { ADMIN_MNEMONIC, ADMIN_ADDRESS } = validatedEnv;
+export const { SUBMISSION_QUEUE_CONCURRENCY } = validatedEnv;
+export const { NONCE_TTL, NONCE_MAX_PER_ADDRESS, NONCE_MAX_OUTSTANDING, CERTIFICATE_MAX_AGE } = validatedEnv;
+export const { SECRET_KEY, JWT_EXPIRES_IN, COOKIE_SAME_SITE } = validatedEnv;
+export const { INDEXER_START_BLOCK, INDEXER_CONFIRMATIONS, INDEXER_INTERVAL, INDEXER_BATCH_SIZE } = validatedEnv;
+export const { CYCLE_SCHEDULER_ENABLED, CYCLE_SCHEDULER_INTERVAL, CYCLE_SCHEDULER_MAX_RETRIES } = validatedEnv;
+export const { CYCLE_REWARDS_AMOUNT, CYCLE_WITHDRAW_REWARDS } = validatedEnv;
+export const { ADMIN_SIGNER, ADMIN_MNEMONIC, ADMIN_PRIVATE_KEY, ADMIN_ADDRESS } = validatedEnv;
+export const { ADMIN_KEYSTORE_PATH, ADMIN_KEYSTORE_PASSWORD, ADMIN_SIGNER_URL, ADMIN_SIGNER_API_KEY } = validatedEnv;
 export const { NETWORK_URL, NETWORK_TYPE } = validatedEnv;
-export const { REWARD_AMOUNT } = validatedEnv;
-
-export const ADMIN_PRIVATE_KEY = mnemonic.derivePrivateKey(ADMIN_MNEMONIC.split(' '));
+export const { FEE_DELEGATOR_PRIVATE_KEY, FEE_DELEGATOR_URL, SOLO_DELEGATOR_ENABLED } = validatedEnv;
+export const { TX_MAX_RETRIES, TX_RETRY_DELAY, TX_GAS_PADDING, TX_EXPIRATION } = validatedEnv;
+export const { REWARD_AMOUNT, REWARD_CATALOGUE_PATH, MAX_POINTS_PER_SUBMISSION } = validatedEnv;
+export const { PROOF_IMAGE_BASE_URL } = validatedEnv;
+export const { REWARD_BATCH_WINDOW, REWARD_BATCH_MAX_SIZE } = validatedEnv;
+export const { BALANCE_CACHE_TTL } = validatedEnv;
+export const { DATABASE_DRIVER, DATABASE_PATH } = validatedEnv;
+export const { DUPLICATE_IMAGE_MAX_DISTANCE } = validatedEnv;
+export const { MAX_SUBMISSIONS_PER_DEVICE, MAX_SUBMISSIONS_PER_DEVICE_PER_CYCLE, MAX_ADDRESSES_PER_DEVICE } = validatedEnv;
+export const { RECEIPT_MAX_AGE_DAYS, RECEIPT_DATE_IN_CYCLE } = validatedEnv;
+export const STORE_BLOCKLIST = validatedEnv.STORE_BLOCKLIST.split(',')
+  .map(store => store.trim())
+  .filter(Boolean);
@@ -0,0 +1,62 @@
+import { NextFunction, Response } from 'express';
+import { Container } from 'typedi';
+import { SetAppIdDto, SetMaxSubmissionsPerCycleDto, SetRewardsAmountDto, WithdrawRewardsDto } from '@/dtos/admin.dto';
+import { RequestWithUser } from '@/interfaces/auth.interface';
+import { AdminService } from '@/services/admin.service';
+
+export class AdminController {
+  public admin = Container.get(AdminService);
+
+  public triggerCycle = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      res.status(200).json(await this.admin.triggerCycle(req.user.address));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  public setRewardsAmount = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { amount }: SetRewardsAmountDto = req.body;
+      res.status(200).json(await this.admin.setRewardsAmount(req.user.address, amount));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  public withdrawRewards = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { cycle }: WithdrawRewardsDto = req.body;
+      res.status(200).json(await this.admin.withdrawRewards(req.user.address, cycle));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  public setMaxSubmissionsPerCycle = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { maxSubmissionsPerCycle }: SetMaxSubmissionsPerCycleDto = req.body;
+      res.status(200).json(await this.admin.setMaxSubmissionsPerCycle(req.user.address, maxSubmissionsPerCycle));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  public setAppId = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { appId }: SetAppIdDto = req.body;
+      res.status(200).json(await this.admin.setAppId(req.user.address, appId));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  public getAuditLog = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const limit = Math.min(Number(req.query.limit) || 50, 500);
+      res.status(200).json(await this.admin.getAuditLog(limit));
+    } catch (error) {
+      next(error);
+    }
+  };
+}
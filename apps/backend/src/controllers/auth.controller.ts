@@ -0,0 +1,48 @@
+import { NextFunction, Request, Response } from 'express';
+import { Container } from 'typedi';
+import { LoginDto } from '@/dtos/auth.dto';
+import { NonceDto } from '@/dtos/nonce.dto';
+import { RequestWithUser } from '@/interfaces/auth.interface';
+import { AuthService } from '@/services/auth.service';
+
+export class AuthController {
+  public auth = Container.get(AuthService);
+
+  public challenge = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { address }: NonceDto = req.body;
+      res.status(201).json(this.auth.createChallenge(address));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  public logIn = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { certificate, nonce }: LoginDto = req.body;
+      const { cookie, address, expiresAt } = this.auth.login(certificate, nonce);
+
+      res.setHeader('Set-Cookie', [cookie]);
+      res.status(200).json({ address, expiresAt });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  public logOut = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      res.setHeader('Set-Cookie', [this.auth.logout()]);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  public me = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      res.status(200).json(req.user);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
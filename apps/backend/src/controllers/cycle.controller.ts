@@ -0,0 +1,27 @@
+import { NextFunction, Request, Response } from 'express';
+import { Container } from 'typedi';
+import { HttpException } from '@/exceptions/HttpException';
+import { CycleService } from '@/services/cycle.service';
+
+export class CycleController {
+  public cycles = Container.get(CycleService);
+
+  public getCurrentCycle = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      res.status(200).json(await this.cycles.getCurrentCycleStats());
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  public getCycle = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const cycle = Number(req.params.cycle);
+      if (!Number.isInteger(cycle) || cycle < 0) throw new HttpException(400, 'Cycle must be a positive integer');
+
+      res.status(200).json(await this.cycles.getCycleStats(cycle));
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,17 @@
+import { NextFunction, Request, Response } from 'express';
+import { Container } from 'typedi';
+import { DelegationRequestDto } from '@/dtos/delegator.dto';
+import { SoloDelegatorService } from '@/services/delegator.service';
+
+export class DelegatorController {
+  public delegator = Container.get(SoloDelegatorService);
+
+  public sign = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { origin, raw }: DelegationRequestDto = req.body;
+      res.status(200).json(this.delegator.sponsor(origin, raw));
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,35 @@
+import { NextFunction, Request, Response } from 'express';
+import { Container } from 'typedi';
+import { HttpException } from '@/exceptions/HttpException';
+import { ContractsService } from '@/services/contracts.service';
+import { LeaderboardService } from '@/services/leaderboard.service';
+
+const MAX_LIMIT = 100;
+
+export class LeaderboardController {
+  public contracts = Container.get(ContractsService);
+  public leaderboard = Container.get(LeaderboardService);
+
+  /**
+   * Ranks the participants of the cycle given as `cycle` query parameter, a number or `current`, or of all cycles without it
+   */
+  public getLeaderboard = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const limit = req.query.limit === undefined ? 20 : Number(req.query.limit);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT)
+        throw new HttpException(400, `Limit must be an integer between 1 and ${MAX_LIMIT}`);
+
+      let cycle: number | undefined;
+      if (req.query.cycle === 'current') {
+        cycle = await this.contracts.getCurrentCycle();
+      } else if (req.query.cycle !== undefined && req.query.cycle !== '') {
+        cycle = Number(req.query.cycle);
+        if (!Number.isInteger(cycle) || cycle < 0) throw new HttpException(400, 'Cycle must be a positive integer or current');
+      }
+
+      res.status(200).json(await this.leaderboard.getLeaderboard(cycle, limit));
+    } catch (error) {
+      next(error);
+    }
+  };
+}
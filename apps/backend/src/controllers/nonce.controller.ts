@@ -0,0 +1,17 @@
+import { NextFunction, Request, Response } from 'express';
+import { Container } from 'typedi';
+import { NonceDto } from '@/dtos/nonce.dto';
+import { NonceService } from '@/services/nonce.service';
+
+export class NonceController {
+  public nonces = Container.get(NonceService);
+
+  public createNonce = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { address }: NonceDto = req.body;
+      res.status(201).json(this.nonces.issue(address));
+    } catch (error) {
+      next(error);
+    }
+  };
+}
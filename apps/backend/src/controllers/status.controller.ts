@@ -0,0 +1,15 @@
+import { NextFunction, Request, Response } from 'express';
+import { Container } from 'typedi';
+import { BalanceService } from '@/services/balance.service';
+
+export class StatusController {
+  public balances = Container.get(BalanceService);
+
+  public getStatus = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      res.status(200).json(await this.balances.getStatus());
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -1,43 +1,114 @@
 import { NextFunction, Request, Response } from 'express';
 import { Container } from 'typedi';
-import { OpenaiService } from '@/services/openai.service';
-import { Submission } from '@/interfaces/submission.interface';
-import { HttpException } from '@/exceptions/HttpException';
+import { Submission, SubmissionJob } from '@/interfaces/submission.interface';
+import { BalanceService } from '@/services/balance.service';
 import { ContractsService } from '@/services/contracts.service';
+import { FINAL_STATUSES, SubmissionService } from '@/services/submission.service';
+import { DeviceService } from '@/services/device.service';
+import { QueueService } from '@/services/queue.service';
+import { SubmitDto } from '@/dtos/submission.dto';
 
 export class SubmissionController {
-  public openai = Container.get(OpenaiService);
   public contracts = Container.get(ContractsService);
+  public submissions = Container.get(SubmissionService);
+  public devices = Container.get(DeviceService);
+  public queue = Container.get(QueueService);
+  public balances = Container.get(BalanceService);
 
   public submitReceipt = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    let submission: Submission | undefined;
+
     try {
-      const body: Omit<Submission, 'timestamp'> = req.body;
+      // The nonce and certificate were checked by the signature middleware, they are not stored
+      const { image, address, deviceID }: SubmitDto = req.body;
+
+      // Refused before being stored, the participant could not be rewarded anyway
+      await this.balances.assertAcceptingSubmissions();
 
       const submissionRequest: Submission = {
-        ...body,
+        address,
+        deviceID,
+        image,
         timestamp: Date.now(),
       };
+
+      // Every attempt is stored, so rewards can be audited later on
+      submission = await this.submissions.createSubmission({
+        ...submissionRequest,
+        round: await this.contracts.getCurrentCycle(),
+      });
+
+      await this.devices.validateDevice(submission);
+
       // Submission validation with smart contract
       await this.contracts.validateSubmission(submissionRequest);
 
-      const validationResult = await this.openai.validateImage(body.image);
+      // Recycled receipts are rejected before paying for an AI analysis
+      await this.submissions.assertNotDuplicate(submission._id, image);
+
+      // The AI analysis and the reward transaction take a while, they are done in the background
+      this.queue.enqueue(submission, image);
+
+      res.status(202).json(await this.submissions.getSubmissionJob(submission._id));
+    } catch (error) {
+      if (submission) await this.submissions.recordError(submission._id, error);
+      next(error);
+      return;
+    }
+  };
+
+  public getSubmission = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      res.status(200).json(await this.submissions.getSubmissionJob(req.params.id));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Streams the progress of a submission as Server-Sent Events, until it is rewarded, rejected or failed
+   */
+  public streamSubmissionEvents = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const job = await this.submissions.getSubmissionJob(req.params.id);
+
+      res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
 
-      if (validationResult == undefined || !('validityFactor' in (validationResult as object))) {
-        throw new HttpException(500, 'Error validating image');
-      }
+      // The client may have gone, or the stream ended on a final status, before a pending event or heartbeat
+      const isOpen = () => !res.writableEnded && !res.destroyed;
 
-      const validityFactor = validationResult['validityFactor'];
+      const send = (job: SubmissionJob) => {
+        if (!isOpen()) return;
 
-      if (validityFactor > 0.5) {
-        if (!(await this.contracts.registerSubmission(submissionRequest))) {
-          throw new HttpException(500, 'Error registering submission and sending rewards');
+        res.write(`event: ${job.status}\ndata: ${JSON.stringify(job)}\n\n`);
+        // Responses are compressed, the event would otherwise stay in the compression buffer
+        res.flush();
+        if (FINAL_STATUSES.includes(job.status)) {
+          stop();
+          res.end();
         }
-      }
+      };
+
+      // Keeps proxies and mobile networks from closing an idle connection
+      const heartbeat = setInterval(() => {
+        if (!isOpen()) return stop();
 
-      res.status(200).json({ validation: validationResult });
+        res.write(': ping\n\n');
+        res.flush();
+      }, 15000);
+
+      const unsubscribe = this.submissions.subscribe(job.id, send);
+      const stop = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      res.on('close', stop);
+
+      if (!isOpen()) return stop();
+
+      send(job);
     } catch (error) {
       next(error);
-      return;
     }
   };
 }
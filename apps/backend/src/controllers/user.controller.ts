@@ -0,0 +1,38 @@
+import { NextFunction, Request, Response } from 'express';
+import { Container } from 'typedi';
+import { UpdateSettingsDto } from '@/dtos/settings.dto';
+import { HttpException } from '@/exceptions/HttpException';
+import { RequestWithUser } from '@/interfaces/auth.interface';
+import { UserService } from '@/services/user.service';
+
+export class UserController {
+  public users = Container.get(UserService);
+
+  public getUserSubmissions = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { address } = req.params;
+      if (!/^0x[0-9a-fA-F]{40}$/.test(address)) throw new HttpException(400, 'Invalid address');
+
+      res.status(200).json(await this.users.getActivity(address));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  public getSettings = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      res.status(200).json(await this.users.getSettings(req.user.address));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  public updateSettings = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { hiddenFromLeaderboard }: UpdateSettingsDto = req.body;
+      res.status(200).json(await this.users.updateSettings(req.user.address, { hiddenFromLeaderboard }));
+    } catch (error) {
+      next(error);
+    }
+  };
+}
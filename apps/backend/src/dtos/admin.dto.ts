@@ -0,0 +1,26 @@
+import { IsInt, Matches, Min } from 'class-validator';
+
+export class SetRewardsAmountDto {
+  /**
+   * Amount of B3TR allocated to the next cycle, in ether
+   */
+  @Matches(/^\d+(\.\d{1,18})?$/, { message: 'amount must be a positive number of B3TR with at most 18 decimals' })
+  public amount: string;
+}
+
+export class WithdrawRewardsDto {
+  @IsInt()
+  @Min(1)
+  public cycle: number;
+}
+
+export class SetMaxSubmissionsPerCycleDto {
+  @IsInt()
+  @Min(1)
+  public maxSubmissionsPerCycle: number;
+}
+
+export class SetAppIdDto {
+  @Matches(/^0x[0-9a-fA-F]{64}$/, { message: 'appId must be a 32 bytes hex string' })
+  public appId: string;
+}
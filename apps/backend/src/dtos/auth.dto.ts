@@ -0,0 +1,15 @@
+import { Type } from 'class-transformer';
+import { IsDefined, IsNotEmpty, IsObject, IsString, ValidateNested } from 'class-validator';
+import { CertificateDto } from './certificate.dto';
+
+export class LoginDto {
+  @IsString()
+  @IsNotEmpty()
+  public nonce: string;
+
+  @IsDefined()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => CertificateDto)
+  public certificate: CertificateDto;
+}
@@ -0,0 +1,43 @@
+import { Type } from 'class-transformer';
+import { ArrayNotEmpty, IsArray, IsIn, IsNotEmpty, IsNumber, IsOptional, IsString, Min, ValidateNested } from 'class-validator';
+import { Catalogue, CatalogueCategory, CategoryImpact, ImpactCode } from '@/interfaces/catalogue.interface';
+
+const IMPACT_CODES: ImpactCode[] = ['carbon', 'water', 'energy', 'waste_mass', 'education_time', 'timber', 'plastic', 'trees_planted'];
+
+export class CategoryImpactDto implements CategoryImpact {
+  @IsIn(IMPACT_CODES)
+  public code: ImpactCode;
+
+  @IsNumber()
+  @Min(0)
+  public value: number;
+}
+
+export class CatalogueCategoryDto implements CatalogueCategory {
+  @IsString()
+  @IsNotEmpty()
+  public name: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  public keywords: string[];
+
+  @IsNumber()
+  @Min(0)
+  public weight: number;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CategoryImpactDto)
+  public impacts?: CategoryImpactDto[];
+}
+
+export class CatalogueDto implements Catalogue {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CatalogueCategoryDto)
+  public categories: CatalogueCategoryDto[];
+}
@@ -0,0 +1,40 @@
+import { Type } from 'class-transformer';
+import { Equals, IsDefined, IsIn, IsNotEmpty, IsNumber, IsObject, IsString, ValidateNested } from 'class-validator';
+import { Certificate } from '@vechain/sdk-core';
+
+export class CertificatePayloadDto {
+  @Equals('text')
+  public type: string;
+
+  @IsString()
+  @IsNotEmpty()
+  public content: string;
+}
+
+/**
+ * VeChain certificate signed by the wallet of the participant
+ */
+export class CertificateDto implements Certificate {
+  @IsIn(['identification', 'agreement'])
+  public purpose: string;
+
+  @IsDefined()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => CertificatePayloadDto)
+  public payload: CertificatePayloadDto;
+
+  @IsString()
+  public domain: string;
+
+  @IsNumber()
+  public timestamp: number;
+
+  @IsString()
+  @IsNotEmpty()
+  public signer: string;
+
+  @IsString()
+  @IsNotEmpty()
+  public signature: string;
+}
@@ -0,0 +1,15 @@
+import { Matches } from 'class-validator';
+
+/**
+ * Body of a VIP-191 fee delegation request
+ */
+export class DelegationRequestDto {
+  @Matches(/^0x[0-9a-fA-F]{40}$/, { message: 'origin must be an address' })
+  public origin: string;
+
+  /**
+   * The unsigned transaction, RLP encoded
+   */
+  @Matches(/^0x([0-9a-fA-F]{2})+$/, { message: 'raw must be a hex encoded transaction' })
+  public raw: string;
+}
@@ -0,0 +1,8 @@
+import { IsNotEmpty, IsString, Length } from 'class-validator';
+
+export class NonceDto {
+  @IsString()
+  @IsNotEmpty()
+  @Length(42, 42) // 42 is the length of an Vechain address including the 0x prefix
+  public address: string;
+}
@@ -1,4 +1,6 @@
-import { IsNotEmpty, IsString, Length } from 'class-validator';
+import { Type } from 'class-transformer';
+import { IsDefined, IsNotEmpty, IsObject, IsString, Length, ValidateNested } from 'class-validator';
+import { CertificateDto } from './certificate.dto';
 
 export class SubmitDto {
   @IsString()
@@ -13,4 +15,14 @@ export class SubmitDto {
   @IsString()
   @IsNotEmpty()
   public deviceID: string;
+
+  @IsString()
+  @IsNotEmpty()
+  public nonce: string;
+
+  @IsDefined()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => CertificateDto)
+  public certificate: CertificateDto;
 }
@@ -0,0 +1,81 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsISO4217CurrencyCode,
+  IsISO8601,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ReceiptLineItem, ReceiptVerdict } from '@/interfaces/verdict.interface';
+
+// Receipts listing more of a single product are most likely misread or forged
+const MAX_LINE_ITEM_QUANTITY = 100;
+
+export class ReceiptLineItemDto implements ReceiptLineItem {
+  @IsString()
+  @IsNotEmpty()
+  public name: string;
+
+  @IsNumber()
+  @Min(0)
+  @Max(MAX_LINE_ITEM_QUANTITY)
+  public quantity: number;
+
+  @IsNumber()
+  public price: number;
+}
+
+export class ReceiptVerdictDto implements ReceiptVerdict {
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  public validityFactor: number;
+
+  @IsString()
+  @IsNotEmpty()
+  public descriptionOfAnalysis: string;
+
+  @IsOptional()
+  @IsBoolean()
+  public isReceipt?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  public isScreenshot?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  public hasPurchaseDate?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  public hasStoreName?: boolean;
+
+  @IsOptional()
+  @IsString()
+  public storeName?: string;
+
+  @IsOptional()
+  @IsISO8601({ strict: true })
+  public purchaseDate?: string;
+
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  public currency?: string;
+
+  @IsOptional()
+  @IsNumber()
+  public total?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ReceiptLineItemDto)
+  public lineItems?: ReceiptLineItemDto[];
+}
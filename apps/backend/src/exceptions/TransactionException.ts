@@ -0,0 +1,53 @@
+import { HttpException } from './HttpException';
+
+/**
+ * A transaction of the admin account was, or would be, reverted by the contract
+ */
+export class TransactionRevertedException extends HttpException {
+  public reason: string;
+
+  constructor(reason: string, status = 500) {
+    super(status, reason || 'Transaction reverted');
+    this.reason = reason;
+  }
+}
+
+export class MaxSubmissionsReachedException extends TransactionRevertedException {
+  constructor(reason: string) {
+    super(reason, 409);
+  }
+}
+
+export class RewardsExhaustedException extends TransactionRevertedException {
+  constructor(reason: string) {
+    super(reason, 409);
+  }
+}
+
+/**
+ * Submissions are accepted again once the next cycle is triggered
+ */
+export class CycleOverException extends TransactionRevertedException {
+  constructor(reason: string) {
+    super(reason, 503);
+  }
+}
+
+/**
+ * The transaction was not included before it expired, it can safely be signed and sent again
+ */
+export class TransactionExpiredException extends HttpException {
+  constructor(txId: string) {
+    super(504, `Transaction ${txId} expired before being included in a block`);
+  }
+}
+
+/**
+ * Sorts the revert reason of an EcoEarn transaction into the exception matching it
+ */
+export const toRevertException = (reason: string): TransactionRevertedException => {
+  if (reason.includes('Max submissions per user reached')) return new MaxSubmissionsReachedException(reason);
+  if (reason.includes('Not enough rewards left')) return new RewardsExhaustedException(reason);
+  if (reason.includes('Cycle is over')) return new CycleOverException(reason);
+  return new TransactionRevertedException(reason);
+};
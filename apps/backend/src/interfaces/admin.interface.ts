@@ -0,0 +1,24 @@
+import { TransactionReceipt } from '@vechain/sdk-network';
+
+/**
+ * Roles of the EcoEarn contract: validators reward submissions, cycle managers start cycles, set and withdraw their rewards, admins do the rest
+ */
+export type EcoEarnRole = 'VALIDATOR_ROLE' | 'CYCLE_MANAGER_ROLE' | 'DEFAULT_ADMIN_ROLE';
+
+/**
+ * Functions of the EcoEarn contract the admin API calls
+ */
+/**
+ * Address of the backend signer and the roles of the EcoEarn contract it holds
+ */
+export interface SignerRoles {
+  address: string;
+  roles: EcoEarnRole[];
+}
+
+export type AdminAction = 'triggerCycle' | 'setRewardsAmount' | 'withdrawRewards' | 'setMaxSubmissionsPerCycle' | 'setAppId';
+
+export interface AdminTransaction {
+  txId: string;
+  receipt: TransactionReceipt;
+}
@@ -0,0 +1,24 @@
+export interface AuditLogEntry {
+  _id?: number;
+  /**
+   * Name of the admin action, e.g. `triggerCycle`
+   */
+  action: string;
+  /**
+   * Address of the admin who requested the action
+   */
+  actor: string;
+  params: Record<string, unknown>;
+  status: 'success' | 'failed';
+  txId?: string;
+  error?: string;
+  timestamp: number;
+}
+
+export interface AuditLogRepository {
+  create(entry: AuditLogEntry): Promise<AuditLogEntry>;
+  /**
+   * Returns the most recent entries first
+   */
+  findLatest(limit: number): Promise<AuditLogEntry[]>;
+}
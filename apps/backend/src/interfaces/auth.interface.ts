@@ -0,0 +1,25 @@
+import { Request } from 'express';
+import { Nonce } from './nonce.interface';
+
+export interface DataStoredInToken {
+  address: string;
+}
+
+export interface TokenData {
+  token: string;
+  /**
+   * Lifetime of the token, in seconds
+   */
+  expiresIn: number;
+}
+
+export interface Challenge extends Nonce {
+  /**
+   * Text to sign, as the payload of a VeChain certificate, to log in
+   */
+  message: string;
+}
+
+export interface RequestWithUser extends Request {
+  user: DataStoredInToken;
+}
@@ -0,0 +1,49 @@
+/**
+ * Impact codes recognised by VeBetterDAO in sustainability proofs
+ */
+export type ImpactCode = 'carbon' | 'water' | 'energy' | 'waste_mass' | 'education_time' | 'timber' | 'plastic' | 'trees_planted';
+
+export interface CategoryImpact {
+  code: ImpactCode;
+  /**
+   * Impact of a single product of the category, in the unit VeBetterDAO uses for the code
+   */
+  value: number;
+}
+
+export interface CatalogueCategory {
+  name: string;
+  keywords: string[];
+  weight: number;
+  impacts?: CategoryImpact[];
+}
+
+export interface Catalogue {
+  categories: CatalogueCategory[];
+}
+
+export interface RewardedItem {
+  name: string;
+  category: string;
+  points: number;
+}
+
+export interface Reward {
+  /**
+   * Amount of B3TR, in wei, sent to the participant
+   */
+  amount: bigint;
+  items: RewardedItem[];
+  /**
+   * Total impact of the rewarded products, by impact code
+   */
+  impacts: Partial<Record<ImpactCode, number>>;
+}
+
+export interface DistributedReward {
+  txId: string;
+  /**
+   * Amount of B3TR, in wei, the contract reported sending to the participant
+   */
+  amount: bigint;
+}
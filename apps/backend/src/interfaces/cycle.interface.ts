@@ -0,0 +1,26 @@
+/**
+ * Public statistics of a rewards cycle, amounts are in B3TR (ether)
+ */
+export interface CycleStats {
+  cycle: number;
+  isCurrent: boolean;
+  /**
+   * Rewards allocated to the cycle
+   */
+  rewards: string;
+  /**
+   * Rewards not distributed nor withdrawn yet
+   */
+  rewardsLeft: string;
+  rewardsDistributed: string;
+  totalSubmissions: number;
+  /**
+   * Only known once the cycle started, the end block of past cycles being the start block of the following one
+   */
+  startBlock?: number;
+  endBlock?: number;
+  /**
+   * Timestamp, in milliseconds, at which the current cycle is expected to end, estimated from the recent block times
+   */
+  estimatedEndTime?: number;
+}
@@ -0,0 +1,15 @@
+export interface FlaggedDevice {
+  deviceID: string;
+  reason: string;
+  flaggedAt: number;
+}
+
+export interface DeviceRepository {
+  /**
+   * Returns the (lowercased) addresses that submitted receipts from the device
+   */
+  getAddresses(deviceID: string): Promise<string[]>;
+  addAddress(deviceID: string, address: string): Promise<void>;
+  flag(deviceID: string, reason: string): Promise<void>;
+  findFlagged(deviceID: string): Promise<FlaggedDevice | undefined>;
+}
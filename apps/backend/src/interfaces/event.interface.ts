@@ -0,0 +1,85 @@
+export type ContractEventName = 'Submission' | 'CycleStarted' | 'ClaimedAllocation';
+
+/**
+ * An event emitted by the EcoEarn contract, as stored by the indexer
+ */
+export interface ContractEvent {
+  _id?: number;
+  name: ContractEventName;
+  /**
+   * Cycle the event belongs to, the one allocated to for `ClaimedAllocation` events
+   */
+  cycle: number;
+  /**
+   * Lowercase address of the rewarded participant, `Submission` events only
+   */
+  participant?: string;
+  /**
+   * Amount of B3TR, in wei, rewarded or allocated
+   */
+  amount?: string;
+  /**
+   * Block the cycle started at, `CycleStarted` events only
+   */
+  startBlock?: number;
+  blockNumber: number;
+  blockID: string;
+  /**
+   * Timestamp, in milliseconds, of the block
+   */
+  timestamp: number;
+  txId: string;
+  clauseIndex: number;
+}
+
+export interface ContractEventQuery {
+  name?: ContractEventName;
+  participant?: string;
+  cycle?: number;
+  /**
+   * Only returns events emitted before this block
+   */
+  beforeBlock?: number;
+  limit?: number;
+}
+
+export interface ParticipantRankingQuery {
+  /**
+   * Cycle the submissions were rewarded in, all cycles when undefined
+   */
+  cycle?: number;
+  /**
+   * Participants left out of the ranking
+   */
+  exclude: string[];
+  limit: number;
+}
+
+/**
+ * Totals of the `Submission` events of a participant
+ */
+export interface ParticipantTotals {
+  participant: string;
+  submissions: number;
+  /**
+   * Amount of B3TR, in wei, rewarded
+   */
+  earned: string;
+}
+
+export interface ContractEventRepository {
+  /**
+   * Replaces the events stored from `fromBlock` on with the given ones, and records `toBlock` as the last indexed block
+   */
+  replaceFrom(fromBlock: number, toBlock: number, events: ContractEvent[]): Promise<void>;
+  getLastIndexedBlock(): Promise<number | undefined>;
+  /**
+   * Returns the most recent events first
+   */
+  find(query: ContractEventQuery): Promise<ContractEvent[]>;
+  count(query: ContractEventQuery): Promise<number>;
+  /**
+   * Returns the participants with the most rewarded submissions first, then those who earned the most
+   */
+  rankParticipants(query: ParticipantRankingQuery): Promise<ParticipantTotals[]>;
+}
@@ -0,0 +1,20 @@
+export interface LeaderboardEntry {
+  rank: number;
+  address: string;
+  /**
+   * Number of rewarded submissions
+   */
+  submissions: number;
+  /**
+   * Amount of B3TR earned, in ether
+   */
+  earned: string;
+}
+
+export interface Leaderboard {
+  /**
+   * Cycle the submissions were counted in, all cycles when undefined
+   */
+  cycle?: number;
+  entries: LeaderboardEntry[];
+}
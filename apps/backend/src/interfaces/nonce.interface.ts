@@ -0,0 +1,7 @@
+export interface Nonce {
+  nonce: string;
+  /**
+   * Timestamp, in milliseconds, after which the nonce is no longer accepted
+   */
+  expiresAt: number;
+}
@@ -0,0 +1,11 @@
+/**
+ * Proof of the sustainable action a participant is rewarded for, stored on chain by the X2EarnRewardsPool along with the reward.
+ * Types and values, as well as impact codes and values, are paired by index.
+ */
+export interface SubmissionProof {
+  proofTypes: string[];
+  proofValues: string[];
+  impactCodes: string[];
+  impactValues: bigint[];
+  description: string;
+}
@@ -0,0 +1,25 @@
+import { Submission } from './submission.interface';
+import { ReceiptVerdict } from './verdict.interface';
+
+export interface RuleResult {
+  rule: string;
+  passed: boolean;
+  reason: string;
+}
+
+export interface RuleContext {
+  submission: Submission;
+  verdict: ReceiptVerdict;
+  /**
+   * Start of the current EcoEarn cycle, in milliseconds. Only fetched when a rule needs it.
+   */
+  getCycleStart: () => Promise<number>;
+}
+
+/**
+ * Business rule checked against the data extracted from a receipt
+ */
+export interface SubmissionRule {
+  name: string;
+  evaluate(context: RuleContext): Promise<RuleResult>;
+}
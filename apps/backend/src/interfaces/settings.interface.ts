@@ -0,0 +1,20 @@
+/**
+ * Preferences of a participant, changed through an authenticated session
+ */
+export interface UserSettings {
+  /**
+   * Lowercase address of the participant
+   */
+  address: string;
+  hiddenFromLeaderboard: boolean;
+  updatedAt?: number;
+}
+
+export interface UserSettingsRepository {
+  find(address: string): Promise<UserSettings | undefined>;
+  save(settings: UserSettings): Promise<UserSettings>;
+  /**
+   * @returns The lowercase addresses of the participants who opted out of the leaderboard
+   */
+  findHiddenFromLeaderboard(): Promise<string[]>;
+}
@@ -0,0 +1,13 @@
+/**
+ * Holds the key of the admin account, signing the transactions sent by the backend.
+ * Implementations only sign hashes, building and sending the transactions is up to the caller.
+ */
+export interface SignerProvider {
+  readonly name: string;
+  getAddress(): Promise<string>;
+  /**
+   * @param hash The 32 bytes signing hash of a transaction
+   * @returns The 65 bytes secp256k1 signature, the recovery id being the last byte
+   */
+  sign(hash: Uint8Array): Promise<Uint8Array>;
+}
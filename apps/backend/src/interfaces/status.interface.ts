@@ -0,0 +1,23 @@
+/**
+ * Balances the backend checks before accepting a submission, amounts are in B3TR (ether)
+ */
+export interface Status {
+  acceptingSubmissions: boolean;
+  /**
+   * Why submissions are refused, only set when they are
+   */
+  reason?: string;
+  cycle: number;
+  /**
+   * Rewards left in the current cycle
+   */
+  rewardsLeft: string;
+  /**
+   * Funds the app can still distribute from the X2EarnRewardsPool
+   */
+  availableFunds: string;
+  /**
+   * Timestamp, in milliseconds, at which the balances were read from the chain
+   */
+  updatedAt: number;
+}
@@ -1,3 +1,11 @@
+import { ReceiptVerdict } from './verdict.interface';
+import { RuleResult } from './rule.interface';
+
+/**
+ * Stages a submission goes through, `rejected`, `rewarded` and `failed` being final
+ */
+export type SubmissionStatus = 'queued' | 'validating' | 'rejected' | 'rewarding' | 'rewarded' | 'failed';
+
 export interface Submission {
   _id?: string;
   round?: number;
@@ -5,4 +13,53 @@ export interface Submission {
   timestamp: number;
   image?: string;
   deviceID?: string;
+  imageHash?: string;
+  perceptualHash?: string;
+  status?: SubmissionStatus;
+  reason?: string;
+  validityFactor?: number;
+  verdict?: ReceiptVerdict;
+  rules?: RuleResult[];
+  /**
+   * Amount of B3TR, in wei, rewarded for the submission
+   */
+  reward?: string;
+  txId?: string;
+}
+
+/**
+ * What the participant gets to know about the progress of their submission
+ */
+export interface SubmissionJob {
+  id: string;
+  status: SubmissionStatus;
+  reason?: string;
+  validation?: ReceiptVerdict;
+  rules?: RuleResult[];
+  /**
+   * Amount of B3TR rewarded, in ether
+   */
+  reward?: string;
+  txId?: string;
+}
+
+export interface SubmissionRepository {
+  create(submission: Submission): Promise<Submission>;
+  update(id: string, changes: Partial<Submission>): Promise<Submission | undefined>;
+  findById(id: string): Promise<Submission | undefined>;
+  findByAddress(address: string): Promise<Submission[]>;
+  /**
+   * Counts the submissions sent from a device which were rewarded or are still being processed, optionally restricted to a cycle
+   * @param before Id of a submission, only those stored before it are counted so concurrent submissions are let through in order
+   */
+  countActiveByDevice(deviceID: string, cycle?: number, before?: string): Promise<number>;
+  /**
+   * Finds a previous submission, which did not fail, with an image whose perceptual hash is within `maxDistance` bits of the given one
+   */
+  findSimilarImage(perceptualHash: string, maxDistance: number): Promise<Submission | undefined>;
+  /**
+   * Applies the same changes to every submission in one of the given statuses
+   * @returns The number of updated submissions
+   */
+  updateByStatus(statuses: SubmissionStatus[], changes: Partial<Submission>): Promise<number>;
 }
@@ -0,0 +1,59 @@
+import { SubmissionStatus } from './submission.interface';
+
+/**
+ * A `Submission` event emitted by the contract when a participant was rewarded
+ */
+export interface RewardEvent {
+  txId: string;
+  blockNumber: number;
+  /**
+   * Timestamp, in milliseconds, of the block
+   */
+  timestamp: number;
+  /**
+   * Amount of B3TR rewarded, in ether
+   */
+  amount: string;
+}
+
+/**
+ * A receipt uploaded by the participant, as recorded by the backend
+ */
+export interface UserSubmission {
+  id: string;
+  cycle?: number;
+  timestamp: number;
+  status: SubmissionStatus;
+  reason?: string;
+  validityFactor?: number;
+  /**
+   * Amount of B3TR rewarded, in ether
+   */
+  reward?: string;
+  txId?: string;
+  /**
+   * Whether the contract emitted the `Submission` event of the reward transaction
+   */
+  confirmed: boolean;
+}
+
+export interface UserActivity {
+  address: string;
+  cycle: number;
+  /**
+   * Submissions rewarded in the current cycle, according to the contract
+   */
+  submissionsThisCycle: number;
+  maxSubmissionsPerCycle: number;
+  submissionsLeft: number;
+  /**
+   * Amount of B3TR earned over all cycles, in ether
+   */
+  totalEarned: string;
+  hiddenFromLeaderboard: boolean;
+  submissions: UserSubmission[];
+  /**
+   * Rewards found on chain, including those of submissions the backend has no record of
+   */
+  rewards: RewardEvent[];
+}
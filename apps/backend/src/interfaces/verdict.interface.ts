@@ -0,0 +1,22 @@
+export interface ReceiptLineItem {
+  name: string;
+  quantity: number;
+  price: number;
+}
+
+/**
+ * Verdict returned by the vision model about a receipt image, along with the data read from the receipt
+ */
+export interface ReceiptVerdict {
+  validityFactor: number;
+  descriptionOfAnalysis: string;
+  isReceipt?: boolean;
+  isScreenshot?: boolean;
+  hasPurchaseDate?: boolean;
+  hasStoreName?: boolean;
+  storeName?: string;
+  purchaseDate?: string; // ISO 8601 date, YYYY-MM-DD
+  currency?: string; // ISO 4217 code
+  total?: number;
+  lineItems?: ReceiptLineItem[];
+}
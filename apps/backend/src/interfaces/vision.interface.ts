@@ -0,0 +1,14 @@
+export interface ImageAnalysisRequest {
+  base64Image: string;
+  prompt: string;
+  maxTokens?: number;
+}
+
+/**
+ * A vision model able to analyse receipt images.
+ * Implementations return the raw text answer of the model, parsing it is up to the caller.
+ */
+export interface ReceiptVisionProvider {
+  readonly name: string;
+  analyzeImage(request: ImageAnalysisRequest): Promise<string | null>;
+}
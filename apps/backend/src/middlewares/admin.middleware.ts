@@ -0,0 +1,24 @@
+import { NextFunction, Response } from 'express';
+import { Container } from 'typedi';
+import { HttpException } from '@exceptions/HttpException';
+import { EcoEarnRole } from '@interfaces/admin.interface';
+import { RequestWithUser } from '@interfaces/auth.interface';
+import { ContractsService } from '@/services/contracts.service';
+
+/**
+ * @name AdminMiddleware
+ * @description Requires the logged in address to hold one of the roles of the EcoEarn contract. Must run after `AuthMiddleware`.
+ * @param roles Roles allowed to call the route
+ */
+export const AdminMiddleware = (...roles: EcoEarnRole[]) => {
+  return async (req: RequestWithUser, res: Response, next: NextFunction) => {
+    try {
+      const contracts = Container.get(ContractsService);
+      const held = await Promise.all(roles.map(role => contracts.hasRole(role, req.user.address)));
+      if (!held.includes(true)) throw new HttpException(403, `The ${roles.join(' or ')} is required`);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
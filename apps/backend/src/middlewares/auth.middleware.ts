@@ -0,0 +1,30 @@
+import { NextFunction, Request, Response } from 'express';
+import { verify } from 'jsonwebtoken';
+import { HttpException } from '@exceptions/HttpException';
+import { DataStoredInToken, RequestWithUser } from '@interfaces/auth.interface';
+import { SECRET_KEY } from '@config';
+
+const getAuthorization = (req: Request): string | undefined => {
+  const cookie = req.cookies['Authorization'];
+  if (cookie) return cookie;
+
+  const header = req.header('Authorization');
+  if (header?.startsWith('Bearer ')) return header.slice('Bearer '.length);
+};
+
+/**
+ * @name AuthMiddleware
+ * @description Requires a session token, issued by `POST /auth/login`, and exposes its address as `req.user`
+ */
+export const AuthMiddleware = (req: RequestWithUser, res: Response, next: NextFunction) => {
+  const authorization = getAuthorization(req);
+  if (!authorization) return next(new HttpException(401, 'Authentication token missing'));
+
+  try {
+    const { address } = verify(authorization, SECRET_KEY) as DataStoredInToken;
+    req.user = { address };
+    next();
+  } catch (error) {
+    next(new HttpException(401, 'Wrong authentication token'));
+  }
+};
@@ -0,0 +1,27 @@
+import { NextFunction, Request, Response } from 'express';
+import { Container } from 'typedi';
+import { SubmitDto } from '@/dtos/submission.dto';
+import { AuthService } from '@/services/auth.service';
+import { NonceService } from '@/services/nonce.service';
+import { hashImage } from '@/utils/data';
+import { buildSubmissionMessage } from '@/utils/signature';
+
+/**
+ * @name SignatureMiddleware
+ * @description Checks a submission is signed, through a VeChain certificate, by the wallet it is submitted for.
+ * Must run after the body was validated against `SubmitDto`.
+ */
+export const SignatureMiddleware = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { address, image, nonce, certificate }: SubmitDto = req.body;
+
+    Container.get(AuthService).verifyCertificate(certificate, address, buildSubmissionMessage(hashImage(image), nonce));
+
+    // Consumed last, so a nonce is only spent by a valid signature
+    Container.get(NonceService).consume(address, nonce);
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
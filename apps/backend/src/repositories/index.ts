@@ -0,0 +1,50 @@
+import { Container, Token } from 'typedi';
+import { DATABASE_DRIVER, DATABASE_PATH } from '@config';
+import { SubmissionRepository } from '@/interfaces/submission.interface';
+import { DeviceRepository } from '@/interfaces/device.interface';
+import { AuditLogRepository } from '@/interfaces/audit.interface';
+import { ContractEventRepository } from '@/interfaces/event.interface';
+import { UserSettingsRepository } from '@/interfaces/settings.interface';
+import { openDatabase } from './sqlite/database';
+import { SqliteSubmissionRepository } from './sqlite/submission.repository';
+import { SqliteDeviceRepository } from './sqlite/device.repository';
+import { SqliteAuditLogRepository } from './sqlite/audit.repository';
+import { SqliteContractEventRepository } from './sqlite/event.repository';
+import { SqliteUserSettingsRepository } from './sqlite/settings.repository';
+import { InMemorySubmissionRepository } from './memory/submission.repository';
+import { InMemoryDeviceRepository } from './memory/device.repository';
+import { InMemoryAuditLogRepository } from './memory/audit.repository';
+import { InMemoryContractEventRepository } from './memory/event.repository';
+import { InMemoryUserSettingsRepository } from './memory/settings.repository';
+
+export const SUBMISSION_REPOSITORY = new Token<SubmissionRepository>('submission.repository');
+export const DEVICE_REPOSITORY = new Token<DeviceRepository>('device.repository');
+export const AUDIT_LOG_REPOSITORY = new Token<AuditLogRepository>('audit.repository');
+export const CONTRACT_EVENT_REPOSITORY = new Token<ContractEventRepository>('event.repository');
+export const USER_SETTINGS_REPOSITORY = new Token<UserSettingsRepository>('settings.repository');
+
+/**
+ * Registers the repositories of the configured database driver in the service container
+ */
+export const initializeRepositories = () => {
+  switch (DATABASE_DRIVER) {
+    case 'sqlite': {
+      const db = openDatabase(DATABASE_PATH);
+      Container.set(SUBMISSION_REPOSITORY, new SqliteSubmissionRepository(db));
+      Container.set(DEVICE_REPOSITORY, new SqliteDeviceRepository(db));
+      Container.set(AUDIT_LOG_REPOSITORY, new SqliteAuditLogRepository(db));
+      Container.set(CONTRACT_EVENT_REPOSITORY, new SqliteContractEventRepository(db));
+      Container.set(USER_SETTINGS_REPOSITORY, new SqliteUserSettingsRepository(db));
+      break;
+    }
+    case 'memory':
+      Container.set(SUBMISSION_REPOSITORY, new InMemorySubmissionRepository());
+      Container.set(DEVICE_REPOSITORY, new InMemoryDeviceRepository());
+      Container.set(AUDIT_LOG_REPOSITORY, new InMemoryAuditLogRepository());
+      Container.set(CONTRACT_EVENT_REPOSITORY, new InMemoryContractEventRepository());
+      Container.set(USER_SETTINGS_REPOSITORY, new InMemoryUserSettingsRepository());
+      break;
+    default:
+      throw new Error(`Unknown database driver: ${DATABASE_DRIVER}`);
+  }
+};
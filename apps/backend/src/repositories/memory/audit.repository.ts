@@ -0,0 +1,18 @@
+import { AuditLogEntry, AuditLogRepository } from '@/interfaces/audit.interface';
+
+export class InMemoryAuditLogRepository implements AuditLogRepository {
+  private entries: AuditLogEntry[] = [];
+
+  public async create(entry: AuditLogEntry): Promise<AuditLogEntry> {
+    const created = { ...entry, _id: this.entries.length + 1 };
+    this.entries.push(created);
+    return { ...created };
+  }
+
+  public async findLatest(limit: number): Promise<AuditLogEntry[]> {
+    return this.entries
+      .slice(-limit)
+      .reverse()
+      .map(entry => ({ ...entry }));
+  }
+}
@@ -0,0 +1,28 @@
+import { DeviceRepository, FlaggedDevice } from '@/interfaces/device.interface';
+
+export class InMemoryDeviceRepository implements DeviceRepository {
+  private addresses = new Map<string, string[]>();
+  private flagged = new Map<string, FlaggedDevice>();
+
+  public async getAddresses(deviceID: string): Promise<string[]> {
+    return [...(this.addresses.get(deviceID) ?? [])];
+  }
+
+  public async addAddress(deviceID: string, address: string): Promise<void> {
+    const addresses = this.addresses.get(deviceID) ?? [];
+    if (!addresses.includes(address.toLowerCase())) {
+      this.addresses.set(deviceID, [...addresses, address.toLowerCase()]);
+    }
+  }
+
+  public async flag(deviceID: string, reason: string): Promise<void> {
+    if (!this.flagged.has(deviceID)) {
+      this.flagged.set(deviceID, { deviceID, reason, flaggedAt: Date.now() });
+    }
+  }
+
+  public async findFlagged(deviceID: string): Promise<FlaggedDevice | undefined> {
+    const device = this.flagged.get(deviceID);
+    return device && { ...device };
+  }
+}
@@ -0,0 +1,57 @@
+import { ContractEvent, ContractEventQuery, ContractEventRepository, ParticipantRankingQuery, ParticipantTotals } from '@/interfaces/event.interface';
+
+const matches = (event: ContractEvent, query: ContractEventQuery) =>
+  (query.name === undefined || event.name === query.name) &&
+  (query.participant === undefined || event.participant === query.participant.toLowerCase()) &&
+  (query.cycle === undefined || event.cycle === query.cycle) &&
+  (query.beforeBlock === undefined || event.blockNumber < query.beforeBlock);
+
+export class InMemoryContractEventRepository implements ContractEventRepository {
+  // Kept in chain order
+  private events: ContractEvent[] = [];
+  private lastIndexedBlock?: number;
+  private nextId = 1;
+
+  public async replaceFrom(fromBlock: number, toBlock: number, events: ContractEvent[]): Promise<void> {
+    this.events = [
+      ...this.events.filter(event => event.blockNumber < fromBlock),
+      ...events.map(event => ({ ...event, participant: event.participant?.toLowerCase(), _id: this.nextId++ })),
+    ];
+    this.lastIndexedBlock = toBlock;
+  }
+
+  public async getLastIndexedBlock(): Promise<number | undefined> {
+    return this.lastIndexedBlock;
+  }
+
+  public async find(query: ContractEventQuery): Promise<ContractEvent[]> {
+    return this.events
+      .filter(event => matches(event, query))
+      .reverse()
+      .slice(0, query.limit)
+      .map(event => ({ ...event }));
+  }
+
+  public async count(query: ContractEventQuery): Promise<number> {
+    return this.events.filter(event => matches(event, query)).length;
+  }
+
+  public async rankParticipants(query: ParticipantRankingQuery): Promise<ParticipantTotals[]> {
+    const excluded = new Set(query.exclude.map(address => address.toLowerCase()));
+    const totals = new Map<string, { submissions: number; earned: bigint }>();
+    this.events
+      .filter(event => matches(event, { name: 'Submission', cycle: query.cycle }) && !excluded.has(event.participant))
+      .forEach(({ participant, amount }) => {
+        const total = totals.get(participant) ?? { submissions: 0, earned: BigInt(0) };
+        totals.set(participant, { submissions: total.submissions + 1, earned: total.earned + BigInt(amount ?? 0) });
+      });
+
+    return [...totals.entries()]
+      .sort(
+        ([participantA, a], [participantB, b]) =>
+          b.submissions - a.submissions || (b.earned > a.earned ? 1 : b.earned < a.earned ? -1 : participantA.localeCompare(participantB)),
+      )
+      .slice(0, query.limit)
+      .map(([participant, total]) => ({ participant, submissions: total.submissions, earned: total.earned.toString() }));
+  }
+}
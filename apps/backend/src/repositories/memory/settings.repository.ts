@@ -0,0 +1,20 @@
+import { UserSettings, UserSettingsRepository } from '@/interfaces/settings.interface';
+
+export class InMemoryUserSettingsRepository implements UserSettingsRepository {
+  private settings = new Map<string, UserSettings>();
+
+  public async find(address: string): Promise<UserSettings | undefined> {
+    const settings = this.settings.get(address.toLowerCase());
+    return settings && { ...settings };
+  }
+
+  public async save(settings: UserSettings): Promise<UserSettings> {
+    const saved = { ...settings, address: settings.address.toLowerCase(), updatedAt: Date.now() };
+    this.settings.set(saved.address, saved);
+    return { ...saved };
+  }
+
+  public async findHiddenFromLeaderboard(): Promise<string[]> {
+    return [...this.settings.values()].filter(settings => settings.hiddenFromLeaderboard).map(settings => settings.address);
+  }
+}
@@ -0,0 +1,68 @@
+import { randomUUID } from 'crypto';
+import { Submission, SubmissionRepository, SubmissionStatus } from '@/interfaces/submission.interface';
+import { hammingDistance } from '@/utils/image';
+
+/**
+ * Non persistent repository, meant to be used in tests or when running the backend without a database.
+ */
+export class InMemorySubmissionRepository implements SubmissionRepository {
+  private submissions = new Map<string, Submission>();
+
+  public async create(submission: Submission): Promise<Submission> {
+    const created = { ...submission, _id: submission._id ?? randomUUID() };
+    delete created.image;
+    this.submissions.set(created._id, created);
+    return { ...created };
+  }
+
+  public async update(id: string, changes: Partial<Submission>): Promise<Submission | undefined> {
+    const submission = this.submissions.get(id);
+    if (!submission) return;
+
+    const updated = { ...submission, ...changes, _id: id };
+    delete updated.image;
+    this.submissions.set(id, updated);
+    return { ...updated };
+  }
+
+  public async findById(id: string): Promise<Submission | undefined> {
+    const submission = this.submissions.get(id);
+    return submission && { ...submission };
+  }
+
+  public async findByAddress(address: string): Promise<Submission[]> {
+    return [...this.submissions.values()]
+      .filter(submission => submission.address.toLowerCase() === address.toLowerCase())
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .map(submission => ({ ...submission }));
+  }
+
+  public async countActiveByDevice(deviceID: string, cycle?: number, before?: string): Promise<number> {
+    // Submissions are kept in the order they were stored
+    const submissions = [...this.submissions.values()];
+    const end = before && this.submissions.has(before) ? submissions.findIndex(submission => submission._id === before) : submissions.length;
+
+    return submissions
+      .slice(0, end)
+      .filter(
+        submission =>
+          submission.deviceID === deviceID &&
+          !['rejected', 'failed'].includes(submission.status) &&
+          (cycle === undefined || submission.round === cycle),
+      ).length;
+  }
+
+  public async findSimilarImage(perceptualHash: string, maxDistance: number): Promise<Submission | undefined> {
+    const submission = [...this.submissions.values()]
+      .filter(submission => submission.perceptualHash && submission.status !== 'failed')
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .find(submission => hammingDistance(submission.perceptualHash, perceptualHash) <= maxDistance);
+    return submission && { ...submission };
+  }
+
+  public async updateByStatus(statuses: SubmissionStatus[], changes: Partial<Submission>): Promise<number> {
+    const submissions = [...this.submissions.values()].filter(submission => statuses.includes(submission.status));
+    submissions.forEach(submission => this.submissions.set(submission._id, { ...submission, ...changes, _id: submission._id }));
+    return submissions.length;
+  }
+}
@@ -0,0 +1,40 @@
+import Database from 'better-sqlite3';
+import { AuditLogEntry, AuditLogRepository } from '@/interfaces/audit.interface';
+
+interface AuditLogRow {
+  id: number;
+  action: string;
+  actor: string;
+  params: string;
+  status: string;
+  tx_id: string | null;
+  error: string | null;
+  timestamp: number;
+}
+
+const toEntry = (row: AuditLogRow): AuditLogEntry => ({
+  _id: row.id,
+  action: row.action,
+  actor: row.actor,
+  params: JSON.parse(row.params),
+  status: row.status as AuditLogEntry['status'],
+  txId: row.tx_id ?? undefined,
+  error: row.error ?? undefined,
+  timestamp: row.timestamp,
+});
+
+export class SqliteAuditLogRepository implements AuditLogRepository {
+  constructor(private db: Database.Database) {}
+
+  public async create(entry: AuditLogEntry): Promise<AuditLogEntry> {
+    const { lastInsertRowid } = this.db
+      .prepare('INSERT INTO audit_log (action, actor, params, status, tx_id, error, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?)')
+      .run(entry.action, entry.actor, JSON.stringify(entry.params), entry.status, entry.txId ?? null, entry.error ?? null, entry.timestamp);
+    return { ...entry, _id: Number(lastInsertRowid) };
+  }
+
+  public async findLatest(limit: number): Promise<AuditLogEntry[]> {
+    const rows = this.db.prepare('SELECT * FROM audit_log ORDER BY id DESC LIMIT ?').all(limit) as AuditLogRow[];
+    return rows.map(toEntry);
+  }
+}
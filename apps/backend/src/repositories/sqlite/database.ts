@@ -0,0 +1,93 @@
+import Database from 'better-sqlite3';
+import { existsSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * Schema migrations, applied in order. The index of the last applied migration is tracked through `PRAGMA user_version`,
+ * so new migrations must always be appended to the end of the list.
+ */
+const migrations: string[] = [
+  `CREATE TABLE submissions (
+    id TEXT PRIMARY KEY,
+    cycle INTEGER,
+    address TEXT NOT NULL,
+    device_id TEXT,
+    timestamp INTEGER NOT NULL,
+    image_hash TEXT,
+    status TEXT NOT NULL,
+    reason TEXT,
+    validity_factor REAL,
+    verdict TEXT,
+    tx_id TEXT
+  );
+  CREATE INDEX submissions_address ON submissions (address);`,
+  `ALTER TABLE submissions ADD COLUMN perceptual_hash TEXT;`,
+  `CREATE INDEX submissions_device_id ON submissions (device_id);
+  CREATE TABLE device_addresses (
+    device_id TEXT NOT NULL,
+    address TEXT NOT NULL,
+    first_seen INTEGER NOT NULL,
+    PRIMARY KEY (device_id, address)
+  );
+  CREATE TABLE flagged_devices (
+    device_id TEXT PRIMARY KEY,
+    reason TEXT NOT NULL,
+    flagged_at INTEGER NOT NULL
+  );`,
+  `ALTER TABLE submissions ADD COLUMN rules TEXT;`,
+  `ALTER TABLE submissions ADD COLUMN reward TEXT;`,
+  `UPDATE submissions SET status = 'failed', reason = 'Interrupted by a server restart' WHERE status = 'pending';`,
+  `CREATE TABLE audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    action TEXT NOT NULL,
+    actor TEXT NOT NULL,
+    params TEXT NOT NULL,
+    status TEXT NOT NULL,
+    tx_id TEXT,
+    error TEXT,
+    timestamp INTEGER NOT NULL
+  );`,
+  `CREATE TABLE contract_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    cycle INTEGER NOT NULL,
+    participant TEXT,
+    amount TEXT,
+    start_block INTEGER,
+    block_number INTEGER NOT NULL,
+    block_id TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    tx_id TEXT NOT NULL,
+    clause_index INTEGER NOT NULL
+  );
+  CREATE INDEX contract_events_block_number ON contract_events (block_number);
+  CREATE INDEX contract_events_name_cycle ON contract_events (name, cycle);
+  CREATE INDEX contract_events_participant ON contract_events (participant);
+  CREATE TABLE indexer_state (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    last_block INTEGER NOT NULL
+  );`,
+  `CREATE TABLE user_settings (
+    address TEXT PRIMARY KEY,
+    hidden_from_leaderboard INTEGER NOT NULL DEFAULT 0,
+    updated_at INTEGER NOT NULL
+  );`,
+];
+
+export const openDatabase = (path: string): Database.Database => {
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+
+  const version = db.pragma('user_version', { simple: true }) as number;
+  db.transaction(() => {
+    migrations.slice(version).forEach(migration => db.exec(migration));
+    db.pragma(`user_version = ${migrations.length}`);
+  })();
+
+  return db;
+};
@@ -0,0 +1,34 @@
+import Database from 'better-sqlite3';
+import { DeviceRepository, FlaggedDevice } from '@/interfaces/device.interface';
+
+interface FlaggedDeviceRow {
+  device_id: string;
+  reason: string;
+  flagged_at: number;
+}
+
+export class SqliteDeviceRepository implements DeviceRepository {
+  constructor(private db: Database.Database) {}
+
+  public async getAddresses(deviceID: string): Promise<string[]> {
+    const rows = this.db.prepare('SELECT address FROM device_addresses WHERE device_id = ? ORDER BY first_seen').all(deviceID) as {
+      address: string;
+    }[];
+    return rows.map(row => row.address);
+  }
+
+  public async addAddress(deviceID: string, address: string): Promise<void> {
+    this.db
+      .prepare('INSERT OR IGNORE INTO device_addresses (device_id, address, first_seen) VALUES (?, ?, ?)')
+      .run(deviceID, address.toLowerCase(), Date.now());
+  }
+
+  public async flag(deviceID: string, reason: string): Promise<void> {
+    this.db.prepare('INSERT OR IGNORE INTO flagged_devices (device_id, reason, flagged_at) VALUES (?, ?, ?)').run(deviceID, reason, Date.now());
+  }
+
+  public async findFlagged(deviceID: string): Promise<FlaggedDevice | undefined> {
+    const row = this.db.prepare('SELECT * FROM flagged_devices WHERE device_id = ?').get(deviceID) as FlaggedDeviceRow | undefined;
+    return row && { deviceID: row.device_id, reason: row.reason, flaggedAt: row.flagged_at };
+  }
+}
@@ -0,0 +1,133 @@
+import Database from 'better-sqlite3';
+import {
+  ContractEvent,
+  ContractEventName,
+  ContractEventQuery,
+  ContractEventRepository,
+  ParticipantRankingQuery,
+  ParticipantTotals,
+} from '@/interfaces/event.interface';
+
+interface ContractEventRow {
+  id: number;
+  name: string;
+  cycle: number;
+  participant: string | null;
+  amount: string | null;
+  start_block: number | null;
+  block_number: number;
+  block_id: string;
+  timestamp: number;
+  tx_id: string;
+  clause_index: number;
+}
+
+const toEvent = (row: ContractEventRow): ContractEvent => ({
+  _id: row.id,
+  name: row.name as ContractEventName,
+  cycle: row.cycle,
+  participant: row.participant ?? undefined,
+  amount: row.amount ?? undefined,
+  startBlock: row.start_block ?? undefined,
+  blockNumber: row.block_number,
+  blockID: row.block_id,
+  timestamp: row.timestamp,
+  txId: row.tx_id,
+  clauseIndex: row.clause_index,
+});
+
+const toWhereClause = (query: ContractEventQuery) => {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (query.name !== undefined) {
+    conditions.push('name = ?');
+    params.push(query.name);
+  }
+  if (query.participant !== undefined) {
+    conditions.push('participant = ?');
+    params.push(query.participant.toLowerCase());
+  }
+  if (query.cycle !== undefined) {
+    conditions.push('cycle = ?');
+    params.push(query.cycle);
+  }
+  if (query.beforeBlock !== undefined) {
+    conditions.push('block_number < ?');
+    params.push(query.beforeBlock);
+  }
+
+  return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+};
+
+export class SqliteContractEventRepository implements ContractEventRepository {
+  constructor(private db: Database.Database) {
+    // Amounts in wei overflow the 64 bits integers of SQLite, they are added up as big integers kept as text
+    this.db.aggregate('sum_wei', {
+      start: '0',
+      step: (total: string, amount: string | null) => (amount === null ? total : (BigInt(total) + BigInt(amount)).toString()),
+      deterministic: true,
+    });
+  }
+
+  public async replaceFrom(fromBlock: number, toBlock: number, events: ContractEvent[]): Promise<void> {
+    const insert = this.db.prepare(
+      `INSERT INTO contract_events (name, cycle, participant, amount, start_block, block_number, block_id, timestamp, tx_id, clause_index)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM contract_events WHERE block_number >= ?').run(fromBlock);
+      events.forEach(event =>
+        insert.run(
+          event.name,
+          event.cycle,
+          event.participant?.toLowerCase() ?? null,
+          event.amount ?? null,
+          event.startBlock ?? null,
+          event.blockNumber,
+          event.blockID,
+          event.timestamp,
+          event.txId,
+          event.clauseIndex,
+        ),
+      );
+      this.db
+        .prepare('INSERT INTO indexer_state (id, last_block) VALUES (1, ?) ON CONFLICT (id) DO UPDATE SET last_block = excluded.last_block')
+        .run(toBlock);
+    })();
+  }
+
+  public async getLastIndexedBlock(): Promise<number | undefined> {
+    const row = this.db.prepare('SELECT last_block FROM indexer_state WHERE id = 1').get() as { last_block: number } | undefined;
+    return row?.last_block;
+  }
+
+  public async find(query: ContractEventQuery): Promise<ContractEvent[]> {
+    const { where, params } = toWhereClause(query);
+    const limit = query.limit !== undefined ? `LIMIT ${Number(query.limit)}` : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM contract_events ${where} ORDER BY block_number DESC, id DESC ${limit}`)
+      .all(...params) as ContractEventRow[];
+    return rows.map(toEvent);
+  }
+
+  public async count(query: ContractEventQuery): Promise<number> {
+    const { where, params } = toWhereClause(query);
+    return (this.db.prepare(`SELECT COUNT(*) AS count FROM contract_events ${where}`).get(...params) as { count: number }).count;
+  }
+
+  public async rankParticipants(query: ParticipantRankingQuery): Promise<ParticipantTotals[]> {
+    const { where, params } = toWhereClause({ name: 'Submission', cycle: query.cycle });
+    // The totals are integers without leading zeros, the longest is the largest
+    return this.db
+      .prepare(
+        `SELECT participant, COUNT(*) AS submissions, sum_wei(amount) AS earned FROM contract_events
+        ${where} AND participant NOT IN (SELECT value FROM json_each(?))
+        GROUP BY participant
+        ORDER BY submissions DESC, LENGTH(earned) DESC, earned DESC, participant
+        LIMIT ?`,
+      )
+      .all(...params, JSON.stringify(query.exclude.map(address => address.toLowerCase())), query.limit) as ParticipantTotals[];
+  }
+}
@@ -0,0 +1,33 @@
+import Database from 'better-sqlite3';
+import { UserSettings, UserSettingsRepository } from '@/interfaces/settings.interface';
+
+interface UserSettingsRow {
+  address: string;
+  hidden_from_leaderboard: number;
+  updated_at: number;
+}
+
+export class SqliteUserSettingsRepository implements UserSettingsRepository {
+  constructor(private db: Database.Database) {}
+
+  public async find(address: string): Promise<UserSettings | undefined> {
+    const row = this.db.prepare('SELECT * FROM user_settings WHERE address = ?').get(address.toLowerCase()) as UserSettingsRow | undefined;
+    return row && { address: row.address, hiddenFromLeaderboard: row.hidden_from_leaderboard === 1, updatedAt: row.updated_at };
+  }
+
+  public async save(settings: UserSettings): Promise<UserSettings> {
+    const saved = { ...settings, address: settings.address.toLowerCase(), updatedAt: Date.now() };
+    this.db
+      .prepare(
+        `INSERT INTO user_settings (address, hidden_from_leaderboard, updated_at) VALUES (?, ?, ?)
+        ON CONFLICT (address) DO UPDATE SET hidden_from_leaderboard = excluded.hidden_from_leaderboard, updated_at = excluded.updated_at`,
+      )
+      .run(saved.address, saved.hiddenFromLeaderboard ? 1 : 0, saved.updatedAt);
+    return saved;
+  }
+
+  public async findHiddenFromLeaderboard(): Promise<string[]> {
+    const rows = this.db.prepare('SELECT address FROM user_settings WHERE hidden_from_leaderboard = 1').all() as { address: string }[];
+    return rows.map(row => row.address);
+  }
+}
@@ -0,0 +1,136 @@
+import { randomUUID } from 'crypto';
+import Database from 'better-sqlite3';
+import { Submission, SubmissionRepository, SubmissionStatus } from '@/interfaces/submission.interface';
+import { hammingDistance } from '@/utils/image';
+
+interface SubmissionRow {
+  id: string;
+  cycle: number | null;
+  address: string;
+  device_id: string | null;
+  timestamp: number;
+  image_hash: string | null;
+  perceptual_hash: string | null;
+  status: string;
+  reason: string | null;
+  validity_factor: number | null;
+  verdict: string | null;
+  rules: string | null;
+  reward: string | null;
+  tx_id: string | null;
+}
+
+// Maps the persisted submission fields to their column
+const columns: Partial<Record<keyof Submission, keyof SubmissionRow>> = {
+  round: 'cycle',
+  address: 'address',
+  deviceID: 'device_id',
+  timestamp: 'timestamp',
+  imageHash: 'image_hash',
+  perceptualHash: 'perceptual_hash',
+  status: 'status',
+  reason: 'reason',
+  validityFactor: 'validity_factor',
+  verdict: 'verdict',
+  rules: 'rules',
+  reward: 'reward',
+  txId: 'tx_id',
+};
+
+const toColumnValue = (field: keyof Submission, value: unknown) => {
+  if (value === undefined) return null;
+  return field === 'verdict' || field === 'rules' ? JSON.stringify(value) : value;
+};
+
+const toSubmission = (row: SubmissionRow): Submission => ({
+  _id: row.id,
+  round: row.cycle ?? undefined,
+  address: row.address,
+  deviceID: row.device_id ?? undefined,
+  timestamp: row.timestamp,
+  imageHash: row.image_hash ?? undefined,
+  perceptualHash: row.perceptual_hash ?? undefined,
+  status: row.status as Submission['status'],
+  reason: row.reason ?? undefined,
+  validityFactor: row.validity_factor ?? undefined,
+  verdict: row.verdict ? JSON.parse(row.verdict) : undefined,
+  rules: row.rules ? JSON.parse(row.rules) : undefined,
+  reward: row.reward ?? undefined,
+  txId: row.tx_id ?? undefined,
+});
+
+export class SqliteSubmissionRepository implements SubmissionRepository {
+  constructor(private db: Database.Database) {
+    this.db.function('hamming_distance', { deterministic: true }, (a: string, b: string) => hammingDistance(a, b));
+  }
+
+  public async create(submission: Submission): Promise<Submission> {
+    const id = submission._id ?? randomUUID();
+    const fields = (Object.keys(columns) as (keyof Submission)[]).filter(field => submission[field] !== undefined);
+
+    this.db
+      .prepare(`INSERT INTO submissions (id, ${fields.map(field => columns[field]).join(', ')}) VALUES (?, ${fields.map(() => '?').join(', ')})`)
+      .run(id, ...fields.map(field => toColumnValue(field, submission[field])));
+
+    return this.findById(id);
+  }
+
+  public async update(id: string, changes: Partial<Submission>): Promise<Submission | undefined> {
+    const fields = (Object.keys(changes) as (keyof Submission)[]).filter(field => columns[field]);
+
+    if (fields.length > 0) {
+      this.db
+        .prepare(`UPDATE submissions SET ${fields.map(field => `${columns[field]} = ?`).join(', ')} WHERE id = ?`)
+        .run(...fields.map(field => toColumnValue(field, changes[field])), id);
+    }
+
+    return this.findById(id);
+  }
+
+  public async findById(id: string): Promise<Submission | undefined> {
+    const row = this.db.prepare('SELECT * FROM submissions WHERE id = ?').get(id) as SubmissionRow | undefined;
+    return row && toSubmission(row);
+  }
+
+  public async findByAddress(address: string): Promise<Submission[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM submissions WHERE address = ? COLLATE NOCASE ORDER BY timestamp DESC')
+      .all(address) as SubmissionRow[];
+    return rows.map(toSubmission);
+  }
+
+  public async countActiveByDevice(deviceID: string, cycle?: number, before?: string): Promise<number> {
+    // Rows are given increasing rowids as they are inserted
+    const { count } = this.db
+      .prepare(
+        `SELECT COUNT(*) AS count FROM submissions
+        WHERE device_id = ? AND status NOT IN ('rejected', 'failed') AND (? IS NULL OR cycle = ?)
+        AND (? IS NULL OR rowid < (SELECT rowid FROM submissions WHERE id = ?))`,
+      )
+      .get(deviceID, cycle ?? null, cycle ?? null, before ?? null, before ?? null) as { count: number };
+    return count;
+  }
+
+  public async findSimilarImage(perceptualHash: string, maxDistance: number): Promise<Submission | undefined> {
+    const row = this.db
+      .prepare(
+        `SELECT * FROM submissions
+        WHERE perceptual_hash IS NOT NULL AND status != 'failed' AND hamming_distance(perceptual_hash, ?) <= ?
+        ORDER BY timestamp LIMIT 1`,
+      )
+      .get(perceptualHash, maxDistance) as SubmissionRow | undefined;
+    return row && toSubmission(row);
+  }
+
+  public async updateByStatus(statuses: SubmissionStatus[], changes: Partial<Submission>): Promise<number> {
+    const fields = (Object.keys(changes) as (keyof Submission)[]).filter(field => columns[field]);
+    if (fields.length === 0 || statuses.length === 0) return 0;
+
+    const { changes: count } = this.db
+      .prepare(
+        `UPDATE submissions SET ${fields.map(field => `${columns[field]} = ?`).join(', ')} WHERE status IN (${statuses.map(() => '?').join(', ')})`,
+      )
+      .run(...fields.map(field => toColumnValue(field, changes[field])), ...statuses);
+    return count;
+  }
+}
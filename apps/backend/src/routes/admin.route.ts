@@ -0,0 +1,52 @@
+import { RequestHandler, Router } from 'express';
+import { Routes } from '@interfaces/routes.interface';
+import { AdminAction, EcoEarnRole } from '@interfaces/admin.interface';
+import { AdminController } from '@/controllers/admin.controller';
+import { AdminMiddleware } from '@/middlewares/admin.middleware';
+import { AuthMiddleware } from '@/middlewares/auth.middleware';
+import { ValidationMiddleware } from '@/middlewares/validation.middleware';
+import { ADMIN_ACTION_ROLES } from '@/services/admin.service';
+import { logger } from '@/utils/logger';
+import { SetAppIdDto, SetMaxSubmissionsPerCycleDto, SetRewardsAmountDto, WithdrawRewardsDto } from '@/dtos/admin.dto';
+
+export class AdminRoute implements Routes {
+  public path = '/admin';
+  public router = Router();
+  public admin = new AdminController();
+
+  /**
+   * @param signerRoles Roles held by the backend signer, the actions requiring another role are not exposed as their transactions would revert
+   */
+  constructor(private signerRoles: EcoEarnRole[]) {
+    this.initializeRoutes();
+  }
+
+  private initializeRoutes() {
+    this.router.use(this.path, AuthMiddleware);
+
+    this.action('trigger-cycle', 'triggerCycle', this.admin.triggerCycle);
+    this.action('rewards-amount', 'setRewardsAmount', ValidationMiddleware(SetRewardsAmountDto), this.admin.setRewardsAmount);
+    this.action('withdraw-rewards', 'withdrawRewards', ValidationMiddleware(WithdrawRewardsDto), this.admin.withdrawRewards);
+    this.action(
+      'max-submissions-per-cycle',
+      'setMaxSubmissionsPerCycle',
+      ValidationMiddleware(SetMaxSubmissionsPerCycleDto),
+      this.admin.setMaxSubmissionsPerCycle,
+    );
+    this.action('app-id', 'setAppId', ValidationMiddleware(SetAppIdDto), this.admin.setAppId);
+    this.router.get(`${this.path}/audit-log`, AdminMiddleware('CYCLE_MANAGER_ROLE', 'DEFAULT_ADMIN_ROLE'), this.admin.getAuditLog);
+  }
+
+  /**
+   * Exposes an action to the callers holding the role it requires, provided the backend signer holds it as well
+   */
+  private action(path: string, action: AdminAction, ...handlers: RequestHandler[]) {
+    const role = ADMIN_ACTION_ROLES[action];
+    if (!this.signerRoles.includes(role)) {
+      logger.info(`POST ${this.path}/${path} is disabled, the backend signer does not hold the ${role}`);
+      return;
+    }
+
+    this.router.post(`${this.path}/${path}`, AdminMiddleware(role), ...handlers);
+  }
+}
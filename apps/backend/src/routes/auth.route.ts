@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { Routes } from '@interfaces/routes.interface';
+import { AuthController } from '@/controllers/auth.controller';
+import { AuthMiddleware } from '@/middlewares/auth.middleware';
+import { ValidationMiddleware } from '@/middlewares/validation.middleware';
+import { LoginDto } from '@/dtos/auth.dto';
+import { NonceDto } from '@/dtos/nonce.dto';
+
+export class AuthRoute implements Routes {
+  public path = '/auth';
+  public router = Router();
+  public auth = new AuthController();
+
+  constructor() {
+    this.initializeRoutes();
+  }
+
+  private initializeRoutes() {
+    this.router.post(`${this.path}/challenge`, ValidationMiddleware(NonceDto), this.auth.challenge);
+    this.router.post(`${this.path}/login`, ValidationMiddleware(LoginDto), this.auth.logIn);
+    this.router.post(`${this.path}/logout`, this.auth.logOut);
+    this.router.get(`${this.path}/me`, AuthMiddleware, this.auth.me);
+  }
+}
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { Routes } from '@interfaces/routes.interface';
+import { CycleController } from '@/controllers/cycle.controller';
+
+export class CycleRoute implements Routes {
+  public router = Router();
+  public cycle = new CycleController();
+
+  constructor() {
+    this.initializeRoutes();
+  }
+
+  private initializeRoutes() {
+    this.router.get(`/cycles/current`, this.cycle.getCurrentCycle);
+    this.router.get(`/cycles/:cycle`, this.cycle.getCycle);
+  }
+}
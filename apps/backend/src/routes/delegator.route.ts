@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { Routes } from '@interfaces/routes.interface';
+import { DelegatorController } from '@/controllers/delegator.controller';
+import { DelegationRequestDto } from '@/dtos/delegator.dto';
+import { ValidationMiddleware } from '@/middlewares/validation.middleware';
+
+/**
+ * Only mounted on the solo network, when `SOLO_DELEGATOR_ENABLED` is set
+ */
+export class DelegatorRoute implements Routes {
+  public path = '/delegator';
+  public router = Router();
+  public delegator = new DelegatorController();
+
+  constructor() {
+    this.initializeRoutes();
+  }
+
+  private initializeRoutes() {
+    this.router.post(`${this.path}/sign`, ValidationMiddleware(DelegationRequestDto), this.delegator.sign);
+  }
+}
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { Routes } from '@interfaces/routes.interface';
+import { LeaderboardController } from '@/controllers/leaderboard.controller';
+
+export class LeaderboardRoute implements Routes {
+  public router = Router();
+  public leaderboard = new LeaderboardController();
+
+  constructor() {
+    this.initializeRoutes();
+  }
+
+  private initializeRoutes() {
+    this.router.get(`/leaderboard`, this.leaderboard.getLeaderboard);
+  }
+}
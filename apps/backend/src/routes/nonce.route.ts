@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { Routes } from '@interfaces/routes.interface';
+import { NonceController } from '@/controllers/nonce.controller';
+import { ValidationMiddleware } from '@/middlewares/validation.middleware';
+import { NonceDto } from '@/dtos/nonce.dto';
+
+export class NonceRoute implements Routes {
+  public router = Router();
+  public nonce = new NonceController();
+
+  constructor() {
+    this.initializeRoutes();
+  }
+
+  private initializeRoutes() {
+    this.router.post(`/nonces`, ValidationMiddleware(NonceDto), this.nonce.createNonce);
+  }
+}
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { Routes } from '@interfaces/routes.interface';
+import { StatusController } from '@/controllers/status.controller';
+
+export class StatusRoute implements Routes {
+  public router = Router();
+  public status = new StatusController();
+
+  constructor() {
+    this.initializeRoutes();
+  }
+
+  private initializeRoutes() {
+    this.router.get(`/status`, this.status.getStatus);
+  }
+}
@@ -3,6 +3,7 @@ import { Routes } from '@interfaces/routes.interface';
 import { SubmissionController } from '@/controllers/submission.controller';
 import { ValidationMiddleware } from '@/middlewares/validation.middleware';
 import { SubmitDto } from '@/dtos/submission.dto';
+import { SignatureMiddleware } from '@/middlewares/signature.middleware';
 
 export class SubmissionRoute implements Routes {
   public router = Router();
@@ -13,6 +14,8 @@ export class SubmissionRoute implements Routes {
   }
 
   private initializeRoutes() {
-    this.router.post(`/submitReceipt`, ValidationMiddleware(SubmitDto), this.submission.submitReceipt);
+    this.router.post(`/submitReceipt`, ValidationMiddleware(SubmitDto), SignatureMiddleware, this.submission.submitReceipt);
+    this.router.get(`/submissions/:id`, this.submission.getSubmission);
+    this.router.get(`/submissions/:id/events`, this.submission.streamSubmissionEvents);
   }
 }
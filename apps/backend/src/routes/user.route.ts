@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { Routes } from '@interfaces/routes.interface';
+import { UserController } from '@/controllers/user.controller';
+import { UpdateSettingsDto } from '@/dtos/settings.dto';
+import { AuthMiddleware } from '@/middlewares/auth.middleware';
+import { ValidationMiddleware } from '@/middlewares/validation.middleware';
+
+export class UserRoute implements Routes {
+  public router = Router();
+  public user = new UserController();
+
+  constructor() {
+    this.initializeRoutes();
+  }
+
+  private initializeRoutes() {
+    this.router.get(`/users/:address/submissions`, this.user.getUserSubmissions);
+    this.router.get(`/users/me/settings`, AuthMiddleware, this.user.getSettings);
+    this.router.patch(`/users/me/settings`, AuthMiddleware, ValidationMiddleware(UpdateSettingsDto), this.user.updateSettings);
+  }
+}
@@ -1,9 +1,66 @@
 import { App } from '@/app';
-import { initializeOpenAI } from './utils/initializeOpenAI';
+import { Container } from 'typedi';
+import { initializeVisionProvider } from './utils/initializeVisionProvider';
+import { initializeRepositories } from './repositories';
 import { SubmissionRoute } from './routes/submission.route';
+import { NonceRoute } from './routes/nonce.route';
+import { AuthRoute } from './routes/auth.route';
+import { AdminRoute } from './routes/admin.route';
+import { StatusRoute } from './routes/status.route';
+import { CycleRoute } from './routes/cycle.route';
+import { UserRoute } from './routes/user.route';
+import { LeaderboardRoute } from './routes/leaderboard.route';
+import { DelegatorRoute } from './routes/delegator.route';
+import { SubmissionService } from './services/submission.service';
+import { CycleSchedulerService } from './services/scheduler.service';
+import { EventIndexerService } from './services/indexer.service';
+import { ContractsService } from './services/contracts.service';
+import { logger } from './utils/logger';
+import { adminSigner } from './utils/thor';
+import { Network, toNetwork } from './utils/model';
+import { CYCLE_SCHEDULER_ENABLED, NETWORK_TYPE, SOLO_DELEGATOR_ENABLED } from '@config';
 
-export const openAIHelper = initializeOpenAI();
+export const visionProvider = initializeVisionProvider();
 
-const app = new App([new SubmissionRoute()]);
+initializeRepositories();
 
-app.listen();
+const signer = Container.get(ContractsService)
+  .verifySignerRoles()
+  .then(signer => {
+    logger.info('Admin signer ready', { signer: adminSigner.name, ...signer });
+    return signer;
+  })
+  .catch(error => {
+    logger.error('The admin signer cannot send the EcoEarn transactions', { signer: adminSigner.name, error: error.message });
+    process.exit(1);
+  });
+
+// Requests are only served once the submissions left over by the last run are failed, new ones would be failed with them
+const interruptedSubmissions = Container.get(SubmissionService)
+  .failInterruptedSubmissions()
+  .catch(error => {
+    logger.error('The submissions interrupted by the last run could not be failed', { error: error.message });
+    process.exit(1);
+  });
+
+// The admin actions are exposed according to the roles of the signer sending them
+Promise.all([signer, interruptedSubmissions]).then(([{ roles }]) => {
+  const app = new App([
+    new SubmissionRoute(),
+    new NonceRoute(),
+    new AuthRoute(),
+    new AdminRoute(roles),
+    new StatusRoute(),
+    new CycleRoute(),
+    new UserRoute(),
+    new LeaderboardRoute(),
+    // The stand-in delegator signs with a well known solo key, it must never be exposed on a public network
+    ...(SOLO_DELEGATOR_ENABLED && toNetwork(NETWORK_TYPE) === Network.solo ? [new DelegatorRoute()] : []),
+  ]);
+
+  app.listen();
+});
+
+Container.get(EventIndexerService).start();
+
+if (CYCLE_SCHEDULER_ENABLED) Container.get(CycleSchedulerService).start();
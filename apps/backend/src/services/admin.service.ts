@@ -0,0 +1,84 @@
+import { Container, Service } from 'typedi';
+import { unitsUtils } from '@vechain/sdk-core';
+import { HttpException } from '@/exceptions/HttpException';
+import { AdminAction, AdminTransaction, EcoEarnRole } from '@/interfaces/admin.interface';
+import { AuditLogEntry } from '@/interfaces/audit.interface';
+import { AUDIT_LOG_REPOSITORY } from '@/repositories';
+import { BalanceService } from '@/services/balance.service';
+import { TransactionService } from '@/services/transaction.service';
+import { logger } from '@/utils/logger';
+import { buildEcoEarnClause } from '@/utils/thor';
+
+/**
+ * Role of the EcoEarn contract each admin action requires, from both the caller of the API and the backend signer sending it
+ */
+export const ADMIN_ACTION_ROLES: Record<AdminAction, EcoEarnRole> = {
+  triggerCycle: 'CYCLE_MANAGER_ROLE',
+  setRewardsAmount: 'CYCLE_MANAGER_ROLE',
+  withdrawRewards: 'CYCLE_MANAGER_ROLE',
+  setMaxSubmissionsPerCycle: 'DEFAULT_ADMIN_ROLE',
+  setAppId: 'DEFAULT_ADMIN_ROLE',
+};
+
+/**
+ * Admin actions on the EcoEarn contract, each of them being recorded in the audit log
+ */
+@Service()
+export class AdminService {
+  public balances = Container.get(BalanceService);
+  public transactions = Container.get(TransactionService);
+
+  private auditLog = Container.get(AUDIT_LOG_REPOSITORY);
+
+  public async triggerCycle(actor: string): Promise<AdminTransaction> {
+    return this.execute('triggerCycle', actor, {}, []);
+  }
+
+  /**
+   * @param amount Amount of B3TR, in ether, allocated to the next cycle
+   */
+  public async setRewardsAmount(actor: string, amount: string): Promise<AdminTransaction> {
+    return this.execute('setRewardsAmount', actor, { amount }, [unitsUtils.parseUnits(amount, 'ether')]);
+  }
+
+  public async withdrawRewards(actor: string, cycle: number): Promise<AdminTransaction> {
+    return this.execute('withdrawRewards', actor, { cycle }, [cycle]);
+  }
+
+  public async setMaxSubmissionsPerCycle(actor: string, maxSubmissionsPerCycle: number): Promise<AdminTransaction> {
+    return this.execute('setMaxSubmissionsPerCycle', actor, { maxSubmissionsPerCycle }, [maxSubmissionsPerCycle]);
+  }
+
+  public async setAppId(actor: string, appId: string): Promise<AdminTransaction> {
+    return this.execute('setAppId', actor, { appId }, [appId]);
+  }
+
+  public async getAuditLog(limit = 50): Promise<AuditLogEntry[]> {
+    return this.auditLog.findLatest(limit);
+  }
+
+  /**
+   * Calls the contract function named after the action, waits for the receipt and records the outcome in the audit log
+   * @param args Arguments of the contract function
+   */
+  private async execute(action: AdminAction, actor: string, params: Record<string, unknown>, args: unknown[]): Promise<AdminTransaction> {
+    let txId: string | undefined;
+
+    try {
+      const transaction = await this.transactions.execute([buildEcoEarnClause(action, args)], async id => (txId = id));
+
+      // Cycles and rewards may have changed, the balances are read again on the next status check
+      this.balances.invalidate();
+
+      await this.auditLog.create({ action, actor, params, status: 'success', txId, timestamp: Date.now() });
+      logger.info(`Admin ${actor} executed ${action} in transaction ${txId}`);
+
+      return transaction;
+    } catch (error) {
+      await this.auditLog.create({ action, actor, params, status: 'failed', txId, error: error.message, timestamp: Date.now() });
+      logger.warn(`Admin ${actor} could not execute ${action}: ${error.message}`);
+
+      throw error instanceof HttpException ? error : new HttpException(500, error.message);
+    }
+  }
+}
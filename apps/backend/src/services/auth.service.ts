@@ -0,0 +1,75 @@
+import { Container, Service } from 'typedi';
+import { sign } from 'jsonwebtoken';
+import { Certificate, certificate } from '@vechain/sdk-core';
+import { HttpException } from '@/exceptions/HttpException';
+import { Challenge, DataStoredInToken, TokenData } from '@/interfaces/auth.interface';
+import { NonceService } from '@/services/nonce.service';
+import { buildLoginMessage } from '@/utils/signature';
+import { CERTIFICATE_MAX_AGE, COOKIE_SAME_SITE, JWT_EXPIRES_IN, NODE_ENV, ORIGIN, SECRET_KEY } from '@config';
+
+/**
+ * Wallets put the host of the page requesting a certificate in its domain, any domain is accepted while ORIGIN is *
+ */
+const CERTIFICATE_DOMAIN = ORIGIN === '*' ? undefined : new URL(ORIGIN).hostname;
+
+@Service()
+export class AuthService {
+  public nonces = Container.get(NonceService);
+
+  public createChallenge(address: string): Challenge {
+    const nonce = this.nonces.issue(address);
+    return { ...nonce, message: buildLoginMessage(nonce.nonce) };
+  }
+
+  /**
+   * Exchanges a certificate signing the login challenge for a session token
+   */
+  public login(cert: Certificate, nonce: string): { cookie: string; address: string; expiresAt: number } {
+    this.verifyCertificate(cert, cert.signer, buildLoginMessage(nonce));
+    this.nonces.consume(cert.signer, nonce);
+
+    const tokenData = this.createToken({ address: cert.signer.toLowerCase() });
+    return { cookie: this.createCookie(tokenData), address: cert.signer, expiresAt: Date.now() + tokenData.expiresIn * 1000 };
+  }
+
+  public logout(): string {
+    return this.createCookie({ token: '', expiresIn: 0 });
+  }
+
+  /**
+   * Checks a certificate was recently signed by the address, over the expected text, on the frontend
+   */
+  public verifyCertificate(cert: Certificate, address: string, message: string): void {
+    if (cert.signer.toLowerCase() !== address.toLowerCase()) {
+      throw new HttpException(401, 'The certificate was not signed by the expected wallet');
+    }
+
+    if (Math.abs(Date.now() / 1000 - cert.timestamp) > CERTIFICATE_MAX_AGE) {
+      throw new HttpException(401, 'The signature has expired, please try again');
+    }
+
+    if (CERTIFICATE_DOMAIN && cert.domain.toLowerCase() !== CERTIFICATE_DOMAIN) {
+      throw new HttpException(401, 'The signature was requested by another site');
+    }
+
+    if (cert.payload.content !== message) {
+      throw new HttpException(401, 'The signature does not match the request');
+    }
+
+    try {
+      certificate.verify(cert);
+    } catch (error) {
+      throw new HttpException(401, 'Invalid signature');
+    }
+  }
+
+  public createToken(data: DataStoredInToken): TokenData {
+    return { token: sign(data, SECRET_KEY, { expiresIn: JWT_EXPIRES_IN }), expiresIn: JWT_EXPIRES_IN };
+  }
+
+  public createCookie(tokenData: TokenData): string {
+    const attributes = [`Authorization=${tokenData.token}`, 'HttpOnly', 'Path=/', `Max-Age=${tokenData.expiresIn}`, `SameSite=${COOKIE_SAME_SITE}`];
+    if (NODE_ENV === 'production') attributes.push('Secure');
+    return attributes.join('; ');
+  }
+}
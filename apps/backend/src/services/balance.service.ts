@@ -0,0 +1,79 @@
+import { Container, Service } from 'typedi';
+import { unitsUtils } from '@vechain/sdk-core';
+import { HttpException } from '@/exceptions/HttpException';
+import { Status } from '@/interfaces/status.interface';
+import { ContractsService } from '@/services/contracts.service';
+import { logger } from '@/utils/logger';
+import { BALANCE_CACHE_TTL, REWARD_AMOUNT } from '@config';
+
+interface Balances {
+  cycle: number;
+  rewardsLeft: bigint;
+  availableFunds: bigint;
+  updatedAt: number;
+}
+
+/**
+ * Keeps the reward balances of the current cycle and of the X2EarnRewardsPool in cache, so submissions can be refused
+ * before paying for an AI analysis whose reward could not be sent anyway
+ */
+@Service()
+export class BalanceService {
+  public contracts = Container.get(ContractsService);
+
+  private balances?: Balances;
+  private refreshing?: Promise<Balances>;
+
+  public async getStatus(): Promise<Status> {
+    const { cycle, rewardsLeft, availableFunds, updatedAt } = await this.getBalances();
+    const reason = this.getRefusalReason(rewardsLeft, availableFunds);
+
+    return {
+      acceptingSubmissions: !reason,
+      reason,
+      cycle,
+      rewardsLeft: unitsUtils.formatUnits(rewardsLeft, 'ether'),
+      availableFunds: unitsUtils.formatUnits(availableFunds, 'ether'),
+      updatedAt,
+    };
+  }
+
+  /**
+   * @throws 503 when there are not enough funds left to reward a submission
+   */
+  public async assertAcceptingSubmissions(): Promise<void> {
+    const { acceptingSubmissions, reason } = await this.getStatus();
+    if (!acceptingSubmissions) throw new HttpException(503, reason);
+  }
+
+  /**
+   * Drops the cached balances, to be called once rewards were sent or allocated
+   */
+  public invalidate(): void {
+    this.balances = undefined;
+  }
+
+  private getRefusalReason(rewardsLeft: bigint, availableFunds: bigint): string | undefined {
+    const minimum = unitsUtils.parseUnits(REWARD_AMOUNT, 'ether');
+    if (rewardsLeft < minimum) return 'EcoEarn: Not enough rewards left for this cycle, please try again in the next one';
+    if (availableFunds < minimum) return 'EcoEarn: The rewards pool is running out of funds, please try again later';
+  }
+
+  private async getBalances(): Promise<Balances> {
+    if (this.balances && Date.now() - this.balances.updatedAt < BALANCE_CACHE_TTL * 1000) return this.balances;
+
+    // Concurrent requests share the same chain reads
+    this.refreshing ??= this.readBalances().finally(() => (this.refreshing = undefined));
+    this.balances = await this.refreshing;
+    return this.balances;
+  }
+
+  private async readBalances(): Promise<Balances> {
+    const cycle = await this.contracts.getCurrentCycle();
+    const [rewardsLeft, availableFunds] = await Promise.all([this.contracts.getRewardsLeft(cycle), this.contracts.getAvailableFunds()]);
+
+    const balances = { cycle, rewardsLeft, availableFunds, updatedAt: Date.now() };
+    logger.debug('Reward balances refreshed', { cycle, rewardsLeft: rewardsLeft.toString(), availableFunds: availableFunds.toString() });
+    return balances;
+  }
+}
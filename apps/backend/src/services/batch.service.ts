@@ -0,0 +1,107 @@
+import { Container, Service } from 'typedi';
+import { HttpException } from '@/exceptions/HttpException';
+import { TransactionRevertedException } from '@/exceptions/TransactionException';
+import { DistributedReward } from '@/interfaces/catalogue.interface';
+import { SubmissionProof } from '@/interfaces/proof.interface';
+import { Submission } from '@/interfaces/submission.interface';
+import { ContractsService } from '@/services/contracts.service';
+import { TransactionService } from '@/services/transaction.service';
+import { logger } from '@/utils/logger';
+import { REWARD_BATCH_MAX_SIZE, REWARD_BATCH_WINDOW } from '@config';
+
+// A batch reverted although its clauses were simulated is checked and sent again this many times
+const MAX_RESENDS = 2;
+
+interface PendingReward {
+  submission: Submission;
+  amount: bigint;
+  proof: SubmissionProof;
+  onSent?: (txId: string) => Promise<unknown>;
+  resolve: (reward: DistributedReward) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Collects the rewards of approved submissions for `REWARD_BATCH_WINDOW` seconds, or until `REWARD_BATCH_MAX_SIZE` of them
+ * are waiting, and sends them as a single transaction with one clause per submission.
+ *
+ * A VeChain transaction is reverted as a whole when one of its clauses is, so the clauses the contract would refuse are
+ * simulated and left out beforehand, their submissions failing on their own.
+ */
+@Service()
+export class RewardBatchService {
+  public contracts = Container.get(ContractsService);
+  public transactions = Container.get(TransactionService);
+
+  private pending: PendingReward[] = [];
+  private timer?: NodeJS.Timeout;
+
+  /**
+   * @param amount Amount of B3TR, in wei, rewarded for the submission
+   * @param onSent Called with the id of the transaction once it is sent, before it is confirmed
+   * @returns The reward, once the transaction including it is confirmed
+   */
+  public add(
+    submission: Submission,
+    amount: bigint,
+    proof: SubmissionProof,
+    onSent?: (txId: string) => Promise<unknown>,
+  ): Promise<DistributedReward> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ submission, amount, proof, onSent, resolve, reject });
+
+      if (this.pending.length >= REWARD_BATCH_MAX_SIZE) this.flush();
+      else if (!this.timer) this.timer = setTimeout(() => this.flush(), REWARD_BATCH_WINDOW * 1000);
+    });
+  }
+
+  private flush(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    const batch = this.pending.splice(0, REWARD_BATCH_MAX_SIZE);
+    if (this.pending.length > 0) this.timer = setTimeout(() => this.flush(), REWARD_BATCH_WINDOW * 1000);
+
+    this.send(batch).catch(error => batch.forEach(reward => reward.reject(error)));
+  }
+
+  private async send(batch: PendingReward[]): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      batch = await this.withoutRefused(batch);
+      if (batch.length === 0) return;
+
+      try {
+        const clauses = batch.map(reward => this.contracts.buildSubmissionClause(reward.submission, reward.amount, reward.proof));
+        const { txId, receipt } = await this.transactions.execute(clauses, txId => Promise.all(batch.map(reward => reward.onSent?.(txId))));
+        logger.info('Rewards sent', { txId, submissions: batch.length });
+
+        const amounts = this.contracts.getSubmissionRewards(receipt);
+        batch.forEach((reward, index) =>
+          amounts[index] === undefined
+            ? reward.reject(new HttpException(500, `Transaction ${txId} did not reward the submission`))
+            : reward.resolve({ txId, amount: amounts[index] }),
+        );
+        return;
+      } catch (error) {
+        // The contract state changed since the clauses were simulated, e.g. the cycle ended in the meantime
+        if (!(error instanceof TransactionRevertedException) || attempt >= MAX_RESENDS) throw error;
+        logger.warn('Rewards transaction reverted, checking the batch again', { attempt: attempt + 1, error: error.message });
+      }
+    }
+  }
+
+  /**
+   * Rejects the rewards the contract would refuse, one at a time as each clause is simulated on top of the previous ones
+   */
+  private async withoutRefused(batch: PendingReward[]): Promise<PendingReward[]> {
+    while (batch.length > 0) {
+      const clauses = batch.map(reward => this.contracts.buildSubmissionClause(reward.submission, reward.amount, reward.proof));
+      const refused = await this.transactions.findRevertedClause(clauses);
+      if (!refused) break;
+
+      batch[refused.index].reject(refused.error);
+      batch = batch.filter((_, index) => index !== refused.index);
+    }
+    return batch;
+  }
+}
@@ -1,28 +1,153 @@
 import { HttpException } from '@/exceptions/HttpException';
+import { EcoEarnRole, SignerRoles } from '@/interfaces/admin.interface';
+import { SubmissionProof } from '@/interfaces/proof.interface';
 import { Submission } from '@/interfaces/submission.interface';
-import { ecoEarnContract } from '@/utils/thor';
+import { logger } from '@/utils/logger';
+import { retry } from '@/utils/retry';
+import { adminSigner, buildEcoEarnClause, ecoEarnContract, thor } from '@/utils/thor';
+import { X2EarnRewardsPoolABI } from '@utils/const';
+import { Clause } from '@utils/model';
+import { ContractCallResult, TransactionReceipt } from '@vechain/sdk-network';
 import { Service } from 'typedi';
-import * as console from 'node:console';
-import { unitsUtils } from '@vechain/sdk-core';
-import { REWARD_AMOUNT } from '@config';
+import { CYCLE_SCHEDULER_ENABLED, TX_MAX_RETRIES, TX_RETRY_DELAY } from '@config';
+
 @Service()
 export class ContractsService {
-  public async registerSubmission(submission: Submission): Promise<boolean> {
-    let isSuccess = false;
-    try {
-      const result = await (
-        await ecoEarnContract.transact.registerValidSubmission(submission.address, unitsUtils.parseUnits(REWARD_AMOUNT, 'ether'))
-      ).wait();
-      isSuccess = !result.reverted;
-    } catch (error) {
-      console.log('Error', error);
-    }
+  private submissionTopic = ecoEarnContract.criteria.Submission().criteria.topic0;
 
-    return isSuccess;
+  /**
+   * Builds the clause registering a valid submission on chain, which sends the rewards to the participant
+   * @param amount Amount of B3TR, in wei, rewarded for the submission
+   * @param proof Proof of the sustainable action, emitted by the X2EarnRewardsPool along with the reward
+   */
+  public buildSubmissionClause(submission: Submission, amount: bigint, proof: SubmissionProof): Clause {
+    return buildEcoEarnClause('registerValidSubmissionWithProof', [
+      submission.address,
+      amount,
+      proof.proofTypes,
+      proof.proofValues,
+      proof.impactCodes,
+      proof.impactValues,
+      proof.description,
+    ]);
+  }
+
+  /**
+   * @returns For each clause of the transaction, the amount of B3TR, in wei, of the `Submission` event it emitted, if any
+   */
+  public getSubmissionRewards(receipt: TransactionReceipt): (bigint | undefined)[] {
+    return receipt.outputs.map(output => {
+      const event = output.events.find(
+        event => event.address.toLowerCase() === ecoEarnContract.address.toLowerCase() && event.topics[0] === this.submissionTopic,
+      );
+      return event && BigInt(event.data);
+    });
   }
 
   public async validateSubmission(submission: Submission): Promise<void> {
     const isMaxSubmissionsReached = (await ecoEarnContract.read.isUserMaxSubmissionsReached(submission.address))[0];
     if (Boolean(isMaxSubmissionsReached) === true) throw new HttpException(409, `EcoEarn: Max submissions reached for this cycle`);
   }
+
+  public async hasRole(role: EcoEarnRole, address: string): Promise<boolean> {
+    const roleId = (await ecoEarnContract.read[role]())[0];
+    return Boolean((await ecoEarnContract.read.hasRole(roleId, address))[0]);
+  }
+
+  /**
+   * Checks the backend signer holds the roles of the transactions it sends, so a wrong key is noticed at boot rather than on the first reward.
+   * The validator role is always required and the cycle manager role when the cycle scheduler is enabled, the admin role never is.
+   * @returns The address of the signer and the roles it holds, which decide the admin actions the backend can send
+   */
+  public async verifySignerRoles(): Promise<SignerRoles> {
+    const address = await adminSigner.getAddress();
+
+    const required: EcoEarnRole[] = ['VALIDATOR_ROLE'];
+    if (CYCLE_SCHEDULER_ENABLED) required.push('CYCLE_MANAGER_ROLE');
+
+    const roles: EcoEarnRole[] = ['VALIDATOR_ROLE', 'CYCLE_MANAGER_ROLE', 'DEFAULT_ADMIN_ROLE'];
+    const held = await retry(() => Promise.all(roles.map(role => this.hasRole(role, address))), {
+      retries: TX_MAX_RETRIES,
+      delay: TX_RETRY_DELAY * 1000,
+      onRetry: (error, attempt) => logger.warn('Roles of the signer could not be read, retrying', { attempt, error: error.message }),
+    });
+
+    const missing = required.filter(role => !held[roles.indexOf(role)]);
+    if (missing.length > 0) throw new Error(`${address} does not hold the ${missing.join(', ')} of the EcoEarn contract`);
+
+    // The signer key is kept on the backend, it should not be able to change settings or grant roles
+    if (held[roles.indexOf('DEFAULT_ADMIN_ROLE')]) {
+      logger.warn('The backend signer holds the DEFAULT_ADMIN_ROLE of the EcoEarn contract, which it does not need', { address });
+    }
+    return { address, roles: roles.filter((role, index) => held[index]) };
+  }
+
+  public async getCurrentCycle(): Promise<number> {
+    return Number((await ecoEarnContract.read.getCurrentCycle())[0]);
+  }
+
+  /**
+   * @param revision Id or number of the block whose state is read
+   */
+  public async getCycleAt(revision: string): Promise<number> {
+    const result = await thor.contracts.executeCall(ecoEarnContract.address, ecoEarnContract.getFunctionFragment('getCurrentCycle'), [], {
+      revision,
+    });
+    return Number((result as ContractCallResult)[0]);
+  }
+
+  /**
+   * @returns The amount of B3TR, in wei, that can still be rewarded in the cycle, the current one by default
+   */
+  public async getRewardsLeft(cycle?: number): Promise<bigint> {
+    return BigInt((await ecoEarnContract.read.rewardsLeft(cycle ?? (await this.getCurrentCycle())))[0]);
+  }
+
+  /**
+   * @returns The amount of B3TR, in wei, allocated to the cycle
+   */
+  public async getRewards(cycle: number): Promise<bigint> {
+    return BigInt((await ecoEarnContract.read.rewards(cycle))[0]);
+  }
+
+  public async getNextCycle(): Promise<number> {
+    return Number((await ecoEarnContract.read.nextCycle())[0]);
+  }
+
+  /**
+   * @returns The number of the first block of the next cycle, the current cycle is over once it is reached
+   */
+  public async getNextCycleBlock(): Promise<number> {
+    return Number((await ecoEarnContract.read.getNextCycleBlock())[0]);
+  }
+
+  public async getMaxSubmissionsPerCycle(): Promise<number> {
+    return Number((await ecoEarnContract.read.maxSubmissionsPerCycle())[0]);
+  }
+
+  /**
+   * @returns The number of the block the current cycle started at
+   */
+  public async getCurrentCycleStartBlock(): Promise<number> {
+    return Number((await ecoEarnContract.read.lastCycleStartBlock())[0]);
+  }
+
+  /**
+   * @returns The timestamp, in milliseconds, of the block the current cycle started at
+   */
+  public async getCurrentCycleStartTimestamp(): Promise<number> {
+    const startBlock = await this.getCurrentCycleStartBlock();
+    const block = await thor.blocks.getBlockCompressed(startBlock);
+    return block.timestamp * 1000;
+  }
+
+  /**
+   * @returns The amount of B3TR, in wei, the app can still distribute from the VeBetterDAO X2EarnRewardsPool
+   */
+  public async getAvailableFunds(): Promise<bigint> {
+    const [poolAddress] = await ecoEarnContract.read.x2EarnRewardsPoolContract();
+    const [appId] = await ecoEarnContract.read.appId();
+    const pool = thor.contracts.load(String(poolAddress), X2EarnRewardsPoolABI);
+    return BigInt((await pool.read.availableFunds(appId as `0x${string}`))[0]);
+  }
 }
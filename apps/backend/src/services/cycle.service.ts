@@ -0,0 +1,83 @@
+import { Container, Service } from 'typedi';
+import { unitsUtils } from '@vechain/sdk-core';
+import { HttpException } from '@/exceptions/HttpException';
+import { CycleStats } from '@/interfaces/cycle.interface';
+import { CONTRACT_EVENT_REPOSITORY } from '@/repositories';
+import { ContractsService } from '@/services/contracts.service';
+import { thor } from '@/utils/thor';
+
+// Block interval of the VeChainThor network, in seconds, used until the cycle is long enough to measure it
+const DEFAULT_BLOCK_TIME = 10;
+
+/**
+ * Builds the statistics of the rewards cycles from the indexed contract events
+ */
+@Service()
+export class CycleService {
+  public contracts = Container.get(ContractsService);
+
+  private events = Container.get(CONTRACT_EVENT_REPOSITORY);
+
+  public async getCurrentCycleStats(): Promise<CycleStats> {
+    return this.getCycleStats(await this.contracts.getCurrentCycle());
+  }
+
+  /**
+   * @throws 404 for cycles after the next one, nothing can be known about them yet
+   */
+  public async getCycleStats(cycle: number): Promise<CycleStats> {
+    const [currentCycle, nextCycle] = await Promise.all([this.contracts.getCurrentCycle(), this.contracts.getNextCycle()]);
+    if (cycle > nextCycle) throw new HttpException(404, `Cycle ${cycle} does not exist`);
+
+    // Withdrawals of the rewards left emit no event, so they are still read from the contract
+    const [allocations, submissions, rewardsLeft] = await Promise.all([
+      this.events.find({ name: 'ClaimedAllocation', cycle, limit: 1 }),
+      this.events.find({ name: 'Submission', cycle }),
+      this.contracts.getRewardsLeft(cycle),
+    ]);
+    const rewardsDistributed = submissions.reduce((sum, event) => sum + BigInt(event.amount), BigInt(0));
+
+    const stats: CycleStats = {
+      cycle,
+      isCurrent: cycle === currentCycle,
+      // The allocation can be changed until the cycle starts, the latest one applies
+      rewards: unitsUtils.formatUnits(allocations[0]?.amount ?? '0', 'ether'),
+      rewardsLeft: unitsUtils.formatUnits(rewardsLeft, 'ether'),
+      rewardsDistributed: unitsUtils.formatUnits(rewardsDistributed, 'ether'),
+      totalSubmissions: submissions.length,
+    };
+
+    return { ...stats, ...(await (stats.isCurrent ? this.getCurrentCycleSchedule() : this.getPastCycleSchedule(cycle))) };
+  }
+
+  /**
+   * Cycles are delimited by the `CycleStarted` events, those still to come have no blocks yet
+   */
+  private async getPastCycleSchedule(cycle: number): Promise<Pick<CycleStats, 'startBlock' | 'endBlock'>> {
+    const [[start], [next]] = await Promise.all([
+      this.events.find({ name: 'CycleStarted', cycle, limit: 1 }),
+      this.events.find({ name: 'CycleStarted', cycle: cycle + 1, limit: 1 }),
+    ]);
+    return { startBlock: start?.startBlock, endBlock: next?.startBlock };
+  }
+
+  /**
+   * Estimates the end of the current cycle from the average block time since it started
+   */
+  private async getCurrentCycleSchedule(): Promise<Pick<CycleStats, 'startBlock' | 'endBlock' | 'estimatedEndTime'>> {
+    const [startBlock, endBlock, best] = await Promise.all([
+      this.contracts.getCurrentCycleStartBlock(),
+      this.contracts.getNextCycleBlock(),
+      thor.blocks.getBestBlockCompressed(),
+    ]);
+
+    let blockTime = DEFAULT_BLOCK_TIME;
+    if (best.number > startBlock) {
+      const start = await thor.blocks.getBlockCompressed(startBlock);
+      blockTime = (best.timestamp - start.timestamp) / (best.number - startBlock);
+    }
+
+    const blocksLeft = Math.max(endBlock - best.number, 0);
+    return { startBlock, endBlock, estimatedEndTime: Math.round((best.timestamp + blocksLeft * blockTime) * 1000) };
+  }
+}
@@ -0,0 +1,37 @@
+import { Service } from 'typedi';
+import { Secp256k1, Transaction, TransactionHandler } from '@vechain/sdk-core';
+import { THOR_SOLO_ACCOUNTS } from '@vechain/sdk-network';
+import { HttpException } from '@/exceptions/HttpException';
+import { ecoEarnContract } from '@/utils/thor';
+
+// Pre-funded solo account paying the gas, so the admin account only needs its roles
+const GAS_PAYER = THOR_SOLO_ACCOUNTS[THOR_SOLO_ACCOUNTS.length - 1];
+
+/**
+ * Stand-in for a fee delegation service on the solo network, to try `FEE_DELEGATOR_URL` without a sponsor.
+ * Only transactions calling the EcoEarn contract are paid for.
+ */
+@Service()
+export class SoloDelegatorService {
+  /**
+   * @param origin Address of the account sending the transaction
+   * @param raw The unsigned transaction, RLP encoded
+   * @returns The signature of the gas payer
+   */
+  public sponsor(origin: string, raw: string): { signature: string } {
+    let transaction: Transaction;
+    try {
+      transaction = TransactionHandler.decode(Buffer.from(raw.slice(2), 'hex'), false);
+    } catch (error) {
+      throw new HttpException(400, 'Invalid transaction');
+    }
+
+    if (!transaction.isDelegated) throw new HttpException(400, 'Transaction is not delegated');
+    if (transaction.body.clauses.some(clause => clause.to?.toLowerCase() !== ecoEarnContract.address.toLowerCase())) {
+      throw new HttpException(403, 'Only transactions calling the EcoEarn contract are sponsored');
+    }
+
+    const signature = Secp256k1.sign(transaction.getSignatureHash(origin), Buffer.from(GAS_PAYER.privateKey, 'hex'));
+    return { signature: `0x${Buffer.from(signature).toString('hex')}` };
+  }
+}
@@ -0,0 +1,48 @@
+import { Container, Service } from 'typedi';
+import { HttpException } from '@/exceptions/HttpException';
+import { Submission } from '@/interfaces/submission.interface';
+import { DEVICE_REPOSITORY, SUBMISSION_REPOSITORY } from '@/repositories';
+import { logger } from '@/utils/logger';
+import { MAX_ADDRESSES_PER_DEVICE, MAX_SUBMISSIONS_PER_DEVICE, MAX_SUBMISSIONS_PER_DEVICE_PER_CYCLE } from '@config';
+
+/**
+ * Enforces the per-device limits, based on the device ID generated by the frontend.
+ * A limit set to 0 is disabled.
+ */
+@Service()
+export class DeviceService {
+  private devices = Container.get(DEVICE_REPOSITORY);
+  private submissions = Container.get(SUBMISSION_REPOSITORY);
+
+  public async validateDevice(submission: Submission): Promise<void> {
+    const { _id, deviceID, address, round } = submission;
+
+    if (await this.devices.findFlagged(deviceID)) {
+      throw new HttpException(403, 'This device has been blocked from submitting receipts');
+    }
+
+    // A device cycling through many wallets is flagged, as it is most likely farming rewards
+    const addresses = await this.devices.getAddresses(deviceID);
+    if (!addresses.includes(address.toLowerCase())) {
+      if (MAX_ADDRESSES_PER_DEVICE > 0 && addresses.length >= MAX_ADDRESSES_PER_DEVICE) {
+        const reason = `Used with more than ${MAX_ADDRESSES_PER_DEVICE} addresses`;
+        await this.devices.flag(deviceID, reason);
+        logger.warn(`Device ${deviceID} flagged: ${reason} (${[...addresses, address.toLowerCase()].join(', ')})`);
+        throw new HttpException(403, 'This device has been blocked from submitting receipts');
+      }
+      await this.devices.addAddress(deviceID, address);
+    }
+
+    // Submissions still being processed count towards the limits, as they may all be rewarded
+    if (MAX_SUBMISSIONS_PER_DEVICE > 0 && (await this.submissions.countActiveByDevice(deviceID, undefined, _id)) >= MAX_SUBMISSIONS_PER_DEVICE) {
+      throw new HttpException(409, 'Max submissions reached for this device');
+    }
+
+    if (
+      MAX_SUBMISSIONS_PER_DEVICE_PER_CYCLE > 0 &&
+      (await this.submissions.countActiveByDevice(deviceID, round, _id)) >= MAX_SUBMISSIONS_PER_DEVICE_PER_CYCLE
+    ) {
+      throw new HttpException(409, 'Max submissions reached for this device in the current cycle');
+    }
+  }
+}
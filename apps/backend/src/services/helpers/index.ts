@@ -1 +1,2 @@
 export * from './openai';
+export * from './vision';
@@ -5,7 +5,7 @@ import { ChatCompletion } from 'openai/resources';
 export class OpenAIHelper {
   private openai: OpenAI;
 
-  constructor(private _openai?: OpenAI) {
+  constructor(private _openai?: OpenAI, private model = 'gpt-4o') {
     if (_openai) {
       this.openai = _openai;
     } else {
@@ -21,7 +21,7 @@ export class OpenAIHelper {
 
   public askChatGPTAboutImage = async ({ base64Image, maxTokens = 350, prompt }: { base64Image: string; prompt: string; maxTokens?: number }) =>
     this.openai.chat.completions.create({
-      model: 'gpt-4o',
+      model: this.model,
       max_tokens: maxTokens,
       messages: [
         {
@@ -43,21 +43,4 @@ export class OpenAIHelper {
     });
 
   public getResponseJSONString = (response: ChatCompletion) => response.choices[0].message.content;
-
-  private cleanChatGPTJSONString = (jsonString: string) => jsonString.replace('```json', '').replace('```', '');
-
-  public parseChatGPTJSONString = <Response>(jsonString?: string | null): Response | undefined => {
-    if (!jsonString) {
-      return;
-    }
-    const content = this.cleanChatGPTJSONString(jsonString);
-    if (content) {
-      try {
-        const parsed = JSON.parse(content);
-        return parsed;
-      } catch (e) {
-        console.error('Failing parsing Chat GPT response:', e);
-      }
-    }
-  };
 }
@@ -0,0 +1,72 @@
+import { RuleResult, SubmissionRule } from '@/interfaces/rule.interface';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Purchase dates have no time zone, they are compared as UTC days
+const startOfDay = (timestamp: number) => Math.floor(timestamp / DAY) * DAY;
+
+const parsePurchaseDate = (purchaseDate?: string): number | undefined => {
+  const timestamp = purchaseDate ? Date.parse(purchaseDate.slice(0, 10)) : NaN;
+  return isNaN(timestamp) ? undefined : timestamp;
+};
+
+const missingDate = (rule: string): RuleResult => ({ rule, passed: false, reason: 'The purchase date could not be read on the receipt' });
+
+export const purchaseDateNotInFuture = (): SubmissionRule => ({
+  name: 'purchaseDateNotInFuture',
+  evaluate: async ({ verdict, submission }) => {
+    const purchaseDate = parsePurchaseDate(verdict.purchaseDate);
+    if (purchaseDate === undefined) return missingDate('purchaseDateNotInFuture');
+
+    // One day of tolerance for receipts issued in a time zone ahead of UTC
+    const passed = purchaseDate <= startOfDay(submission.timestamp) + DAY;
+    return {
+      rule: 'purchaseDateNotInFuture',
+      passed,
+      reason: passed ? 'The purchase date is not in the future' : 'The purchase date is in the future',
+    };
+  },
+});
+
+export const purchaseDateWithinDays = (days: number): SubmissionRule => ({
+  name: 'purchaseDateWithinDays',
+  evaluate: async ({ verdict, submission }) => {
+    const purchaseDate = parsePurchaseDate(verdict.purchaseDate);
+    if (purchaseDate === undefined) return missingDate('purchaseDateWithinDays');
+
+    const passed = startOfDay(submission.timestamp) - purchaseDate <= days * DAY;
+    return {
+      rule: 'purchaseDateWithinDays',
+      passed,
+      reason: passed ? `The purchase was made within the last ${days} days` : `The purchase was made more than ${days} days ago`,
+    };
+  },
+});
+
+export const purchaseDateInCurrentCycle = (): SubmissionRule => ({
+  name: 'purchaseDateInCurrentCycle',
+  evaluate: async ({ verdict, getCycleStart }) => {
+    const purchaseDate = parsePurchaseDate(verdict.purchaseDate);
+    if (purchaseDate === undefined) return missingDate('purchaseDateInCurrentCycle');
+
+    const passed = purchaseDate >= startOfDay(await getCycleStart());
+    return {
+      rule: 'purchaseDateInCurrentCycle',
+      passed,
+      reason: passed ? 'The purchase was made during the current cycle' : 'The purchase was made before the current cycle started',
+    };
+  },
+});
+
+export const storeNotBlocklisted = (blocklist: string[]): SubmissionRule => ({
+  name: 'storeNotBlocklisted',
+  evaluate: async ({ verdict }) => {
+    const storeName = verdict.storeName?.toLowerCase() ?? '';
+    const blocked = blocklist.find(store => storeName.includes(store.toLowerCase()));
+    return {
+      rule: 'storeNotBlocklisted',
+      passed: !blocked,
+      reason: blocked ? `Receipts from ${verdict.storeName} are not accepted` : 'The store is accepted',
+    };
+  },
+});
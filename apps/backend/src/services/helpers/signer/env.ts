@@ -0,0 +1,21 @@
+import { Secp256k1, addressUtils } from '@vechain/sdk-core';
+import { SignerProvider } from '@/interfaces/signer.interface';
+
+/**
+ * Signs with a private key held in memory, read from a plaintext key or mnemonic in the environment
+ */
+export class PrivateKeySignerProvider implements SignerProvider {
+  public readonly name: string = 'env';
+
+  constructor(private privateKey: Uint8Array) {
+    if (!Secp256k1.isValidPrivateKey(privateKey)) throw new Error('Invalid admin private key');
+  }
+
+  public async getAddress(): Promise<string> {
+    return addressUtils.fromPrivateKey(this.privateKey);
+  }
+
+  public async sign(hash: Uint8Array): Promise<Uint8Array> {
+    return Secp256k1.sign(hash, this.privateKey);
+  }
+}
@@ -0,0 +1,4 @@
+export * from './env';
+export * from './keystore';
+export * from './remote';
+export * from './transaction';
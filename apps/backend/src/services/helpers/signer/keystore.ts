@@ -0,0 +1,34 @@
+import { readFileSync } from 'fs';
+import { Keystore, Secp256k1, addressUtils, keystore } from '@vechain/sdk-core';
+import { SignerProvider } from '@/interfaces/signer.interface';
+
+/**
+ * Signs with a private key kept in an encrypted keystore file (Web3 Secret Storage, scrypt), so no plaintext key is stored on disk.
+ * The key is only decrypted on the first signature, scrypt taking a few seconds on purpose.
+ */
+export class KeystoreSignerProvider implements SignerProvider {
+  public readonly name: string = 'keystore';
+
+  private keystore: Keystore;
+  private privateKey?: Promise<Uint8Array>;
+
+  constructor(path: string, private password: string) {
+    this.keystore = JSON.parse(readFileSync(path, 'utf8'));
+    if (!keystore.isValid(this.keystore)) throw new Error(`${path} is not a valid keystore file`);
+  }
+
+  public async getAddress(): Promise<string> {
+    return addressUtils.toERC55Checksum(`0x${this.keystore.address.replace(/^0x/, '')}`);
+  }
+
+  public async sign(hash: Uint8Array): Promise<Uint8Array> {
+    return Secp256k1.sign(hash, await this.decrypt());
+  }
+
+  private decrypt(): Promise<Uint8Array> {
+    this.privateKey ??= keystore.decrypt(this.keystore, this.password).then(account => Buffer.from(account.privateKey.replace(/^0x/, ''), 'hex'));
+    // A wrong password must not be remembered, it can be fixed without restarting the backend
+    this.privateKey.catch(() => (this.privateKey = undefined));
+    return this.privateKey;
+  }
+}
@@ -0,0 +1,44 @@
+import axios from 'axios';
+import { Secp256k1, addressUtils } from '@vechain/sdk-core';
+import { SignerProvider } from '@/interfaces/signer.interface';
+
+export interface RemoteSignerOptions {
+  url: string;
+  address: string;
+  apiKey?: string;
+}
+
+/**
+ * Signs through an HTTP signing service, a stand-in for a KMS or HSM holding the key.
+ *
+ * The service receives `POST <url>` with `{ address, hash }`, both hex encoded, and answers `{ signature }`, the 65 bytes
+ * secp256k1 signature. Signatures are checked against the address before being used.
+ */
+export class RemoteSignerProvider implements SignerProvider {
+  public readonly name: string = 'remote';
+
+  constructor(private options: RemoteSignerOptions) {
+    if (!addressUtils.isAddress(options.address)) throw new Error('The address of the remote signer is invalid');
+  }
+
+  public async getAddress(): Promise<string> {
+    return addressUtils.toERC55Checksum(this.options.address);
+  }
+
+  public async sign(hash: Uint8Array): Promise<Uint8Array> {
+    const { data } = await axios.post<{ signature: string }>(
+      this.options.url,
+      { address: this.options.address, hash: `0x${Buffer.from(hash).toString('hex')}` },
+      { headers: this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}, timeout: 10000 },
+    );
+
+    const signature = Buffer.from(String(data?.signature).replace(/^0x/, ''), 'hex');
+    if (
+      signature.length !== 65 ||
+      addressUtils.fromPublicKey(Secp256k1.recover(hash, signature)).toLowerCase() !== this.options.address.toLowerCase()
+    ) {
+      throw new Error('The remote signer answered with a signature of another account');
+    }
+    return signature;
+  }
+}
@@ -0,0 +1,49 @@
+import { Secp256k1, Transaction } from '@vechain/sdk-core';
+import { DelegationHandler, SignTransactionOptions, ThorClient } from '@vechain/sdk-network';
+import { SignerProvider } from '@/interfaces/signer.interface';
+import { Clause } from '@/utils/model';
+
+export interface TransactionToSign {
+  clauses: Clause[];
+  gas: number;
+  /**
+   * Number of blocks after which the transaction expires
+   */
+  expiration: number;
+}
+
+/**
+ * Builds and signs the admin transactions with the key of a SignerProvider, along with the signature of the fee delegator if any
+ */
+export class TransactionSigner {
+  constructor(private thor: ThorClient, private provider: SignerProvider, private delegator?: SignTransactionOptions) {}
+
+  public get name(): string {
+    return this.provider.name;
+  }
+
+  public getAddress(): Promise<string> {
+    return this.provider.getAddress();
+  }
+
+  /**
+   * @returns The signed transaction, RLP and hex encoded
+   */
+  public async signTransaction({ clauses, gas, expiration }: TransactionToSign): Promise<string> {
+    const body = await this.thor.transactions.buildTransactionBody(clauses, gas, { expiration, isDelegated: this.delegator !== undefined });
+    const transaction = new Transaction(body);
+
+    const signature = Buffer.from(await this.provider.sign(transaction.getSignatureHash()));
+    const delegatorSignature = this.delegator && (await this.signAsDelegator(transaction));
+
+    return `0x${new Transaction(body, delegatorSignature ? Buffer.concat([signature, delegatorSignature]) : signature).encoded.toString('hex')}`;
+  }
+
+  private async signAsDelegator(transaction: Transaction): Promise<Buffer> {
+    const origin = await this.getAddress();
+    if (this.delegator.delegatorPrivateKey) {
+      return Buffer.from(Secp256k1.sign(transaction.getSignatureHash(origin), Buffer.from(this.delegator.delegatorPrivateKey, 'hex')));
+    }
+    return DelegationHandler(this.delegator).getDelegationSignatureUsingUrl(transaction, origin, this.thor.httpClient);
+  }
+}
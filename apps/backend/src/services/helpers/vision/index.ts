@@ -0,0 +1,3 @@
+export * from './openai';
+export * from './stub';
+export * from './response';
@@ -0,0 +1,29 @@
+import OpenAI from 'openai';
+import { ImageAnalysisRequest, ReceiptVisionProvider } from '@/interfaces/vision.interface';
+import { OpenAIHelper } from '../openai';
+
+/**
+ * Vision provider backed by the OpenAI API
+ */
+export class OpenAIVisionProvider implements ReceiptVisionProvider {
+  public readonly name: string = 'openai';
+
+  constructor(protected helper: OpenAIHelper = new OpenAIHelper()) {}
+
+  public async analyzeImage(request: ImageAnalysisRequest): Promise<string | null> {
+    const response = await this.helper.askChatGPTAboutImage(request);
+    return this.helper.getResponseJSONString(response);
+  }
+}
+
+/**
+ * Vision provider for any server exposing an OpenAI compatible chat completions API, like Ollama or vLLM
+ */
+export class OpenAICompatibleVisionProvider extends OpenAIVisionProvider {
+  public readonly name: string = 'openai-compatible';
+
+  constructor({ baseURL, model, apiKey }: { baseURL: string; model: string; apiKey?: string }) {
+    // Local servers usually ignore the API key, but the SDK requires one
+    super(new OpenAIHelper(new OpenAI({ baseURL, apiKey: apiKey || 'unused' }), model));
+  }
+}
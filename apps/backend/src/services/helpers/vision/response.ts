@@ -0,0 +1,21 @@
+const cleanJSONResponse = (jsonString: string) => jsonString.replace('```json', '').replace('```', '');
+
+/**
+ * Parses the JSON object answered by a vision model, which may be wrapped in a markdown code block
+ */
+export const parseJSONResponse = <Response>(jsonString?: string | null): Response | undefined => {
+  if (!jsonString) {
+    return;
+  }
+
+  const content = cleanJSONResponse(jsonString);
+
+  if (content) {
+    try {
+      const parsed = JSON.parse(content);
+      return parsed;
+    } catch (e) {
+      console.error('Failing parsing vision model response:', e);
+    }
+  }
+};
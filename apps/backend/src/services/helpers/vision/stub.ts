@@ -0,0 +1,23 @@
+import { ReceiptVisionProvider } from '@/interfaces/vision.interface';
+
+/**
+ * Deterministic vision provider which does not call any model, meant to run the backend offline (e.g. in CI).
+ * Every image gets the same verdict.
+ */
+export class StubVisionProvider implements ReceiptVisionProvider {
+  public readonly name: string = 'stub';
+
+  constructor(private validityFactor = 1) {}
+
+  public async analyzeImage(): Promise<string | null> {
+    return JSON.stringify({
+      validityFactor: this.validityFactor,
+      descriptionOfAnalysis: `Stub analysis: the receipt has been given a validity factor of ${this.validityFactor}.`,
+      storeName: 'Stub Store',
+      purchaseDate: new Date().toISOString().slice(0, 10),
+      currency: 'EUR',
+      total: 4.5,
+      lineItems: [{ name: 'Organic coffee', quantity: 1, price: 4.5 }],
+    });
+  }
+}
@@ -0,0 +1,111 @@
+import { Container, Service } from 'typedi';
+import { EventLogs } from '@vechain/sdk-network';
+import { ContractEvent, ContractEventName } from '@/interfaces/event.interface';
+import { CONTRACT_EVENT_REPOSITORY } from '@/repositories';
+import { ContractsService } from '@/services/contracts.service';
+import { logger } from '@/utils/logger';
+import { ecoEarnContract, thor } from '@/utils/thor';
+import { INDEXER_BATCH_SIZE, INDEXER_CONFIRMATIONS, INDEXER_INTERVAL, INDEXER_START_BLOCK } from '@config';
+
+// Logs requested per call, nodes refuse to return more than 1000 by default
+const PAGE_SIZE = 256;
+
+const EVENT_NAMES: ContractEventName[] = ['Submission', 'CycleStarted', 'ClaimedAllocation'];
+
+/**
+ * Stores the events of the EcoEarn contract locally, so histories and statistics do not need a contract read per request.
+ *
+ * The logs are backfilled from `INDEXER_START_BLOCK` then followed as new blocks are produced. Blocks within
+ * `INDEXER_CONFIRMATIONS` of the last indexed one are indexed again on every tick, so logs dropped by a chain
+ * reorganisation are replaced by those of the new branch.
+ */
+@Service()
+export class EventIndexerService {
+  public contracts = Container.get(ContractsService);
+
+  private events = Container.get(CONTRACT_EVENT_REPOSITORY);
+  private criteriaSet = EVENT_NAMES.map(name => ecoEarnContract.criteria[name]());
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  public start(): void {
+    logger.info('Event indexer started', { startBlock: INDEXER_START_BLOCK, confirmations: INDEXER_CONFIRMATIONS, interval: INDEXER_INTERVAL });
+    this.timer = setInterval(() => this.tick(), INDEXER_INTERVAL * 1000);
+    this.tick();
+  }
+
+  public stop(): void {
+    clearInterval(this.timer);
+  }
+
+  private async tick(): Promise<void> {
+    // The backfill can take longer than the interval, ticks must not overlap
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const best = await thor.blocks.getBestBlockCompressed();
+      const lastIndexedBlock = await this.events.getLastIndexedBlock();
+
+      let from = lastIndexedBlock === undefined ? INDEXER_START_BLOCK : Math.max(lastIndexedBlock - INDEXER_CONFIRMATIONS + 1, INDEXER_START_BLOCK);
+      while (from <= best.number) {
+        const to = Math.min(from + INDEXER_BATCH_SIZE - 1, best.number);
+        const events = await this.readEvents(from, to);
+        await this.events.replaceFrom(from, to, events);
+
+        logger.debug('Contract events indexed', { from, to, events: events.length });
+        from = to + 1;
+      }
+    } catch (error) {
+      logger.error('Contract events could not be indexed, retrying on the next tick', { error: error.message });
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async readEvents(from: number, to: number): Promise<ContractEvent[]> {
+    const logs: EventLogs[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await thor.logs.filterEventLogs({
+        range: { unit: 'block', from, to },
+        criteriaSet: this.criteriaSet,
+        order: 'asc',
+        options: { offset, limit: PAGE_SIZE },
+      });
+      logs.push(...page);
+      if (page.length < PAGE_SIZE) break;
+    }
+
+    // `Submission` events do not tell their cycle, it is the one started by the latest `CycleStarted` event
+    let cycle = (await this.events.find({ name: 'CycleStarted', beforeBlock: from, limit: 1 }))[0]?.cycle ?? 0;
+
+    const events: ContractEvent[] = [];
+    for (const log of logs) {
+      const name = EVENT_NAMES[this.criteriaSet.findIndex(({ criteria }) => criteria.topic0 === log.topics[0])];
+      const data = log.decodedData as unknown as unknown[];
+      const event = {
+        blockNumber: log.meta.blockNumber,
+        blockID: log.meta.blockID,
+        timestamp: log.meta.blockTimestamp * 1000,
+        txId: log.meta.txID,
+        clauseIndex: log.meta.clauseIndex,
+      };
+
+      switch (name) {
+        case 'CycleStarted':
+          // Admins can also change the cycle number with `setNextCycle`, which emits no event, so it is read from the chain
+          cycle = await this.contracts.getCycleAt(log.meta.blockID);
+          events.push({ ...event, name, cycle, startBlock: Number(data[0]) });
+          break;
+        case 'Submission':
+          events.push({ ...event, name, cycle, participant: String(data[0]).toLowerCase(), amount: String(data[1]) });
+          break;
+        case 'ClaimedAllocation':
+          events.push({ ...event, name, cycle: Number(data[0]), amount: String(data[1]) });
+          break;
+      }
+    }
+
+    return events;
+  }
+}
@@ -0,0 +1,30 @@
+import { Container, Service } from 'typedi';
+import { unitsUtils } from '@vechain/sdk-core';
+import { Leaderboard } from '@/interfaces/leaderboard.interface';
+import { CONTRACT_EVENT_REPOSITORY, USER_SETTINGS_REPOSITORY } from '@/repositories';
+
+/**
+ * Ranks the participants by rewarded submissions, then by B3TR earned, from the indexed `Submission` events
+ */
+@Service()
+export class LeaderboardService {
+  private events = Container.get(CONTRACT_EVENT_REPOSITORY);
+  private settings = Container.get(USER_SETTINGS_REPOSITORY);
+
+  /**
+   * @param cycle Cycle to rank the participants of, all cycles when undefined
+   */
+  public async getLeaderboard(cycle: number | undefined, limit: number): Promise<Leaderboard> {
+    const hidden = await this.settings.findHiddenFromLeaderboard();
+    const totals = await this.events.rankParticipants({ cycle, exclude: hidden, limit });
+
+    const entries = totals.map(({ participant, submissions, earned }, index) => ({
+      rank: index + 1,
+      address: participant,
+      submissions,
+      earned: unitsUtils.formatUnits(earned, 'ether'),
+    }));
+
+    return { cycle, entries };
+  }
+}
@@ -0,0 +1,64 @@
+import { randomBytes } from 'crypto';
+import { Service } from 'typedi';
+import { HttpException } from '@/exceptions/HttpException';
+import { Nonce } from '@/interfaces/nonce.interface';
+import { NONCE_MAX_OUTSTANDING, NONCE_MAX_PER_ADDRESS, NONCE_TTL } from '@config';
+
+/**
+ * Issues single use nonces, which participants include in what they sign so a signature can not be replayed.
+ * An address keeps its latest NONCE_MAX_PER_ADDRESS nonces only, and no nonce is issued while NONCE_MAX_OUTSTANDING are waiting to be used
+ */
+@Service()
+export class NonceService {
+  private nonces = new Map<string, { address: string; expiresAt: number }>();
+  /**
+   * Nonces of each address, oldest first
+   */
+  private addresses = new Map<string, string[]>();
+
+  public issue(address: string): Nonce {
+    this.removeExpired();
+
+    const owner = address.toLowerCase();
+    const issued = this.addresses.get(owner) ?? [];
+    while (issued.length >= NONCE_MAX_PER_ADDRESS) this.nonces.delete(issued.shift());
+
+    if (this.nonces.size >= NONCE_MAX_OUTSTANDING) {
+      throw new HttpException(429, 'Too many signatures are pending, please try again later');
+    }
+
+    const nonce = randomBytes(16).toString('hex');
+    const expiresAt = Date.now() + NONCE_TTL * 1000;
+    this.nonces.set(nonce, { address: owner, expiresAt });
+    this.addresses.set(owner, [...issued, nonce]);
+
+    return { nonce, expiresAt };
+  }
+
+  /**
+   * Checks a nonce was issued to the address and has not expired, it can not be used again afterwards
+   */
+  public consume(address: string, nonce: string): void {
+    const issued = this.nonces.get(nonce);
+    if (issued) this.remove(nonce, issued.address);
+
+    if (!issued || issued.address !== address.toLowerCase() || issued.expiresAt < Date.now()) {
+      throw new HttpException(401, 'Invalid or expired nonce, please try again');
+    }
+  }
+
+  private remove(nonce: string, address: string): void {
+    this.nonces.delete(nonce);
+
+    const issued = (this.addresses.get(address) ?? []).filter(other => other !== nonce);
+    if (issued.length) this.addresses.set(address, issued);
+    else this.addresses.delete(address);
+  }
+
+  private removeExpired(): void {
+    const now = Date.now();
+    this.nonces.forEach(({ address, expiresAt }, nonce) => {
+      if (expiresAt < now) this.remove(nonce, address);
+    });
+  }
+}
@@ -1,11 +1,19 @@
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
 import { HttpException } from '@/exceptions/HttpException';
-import { openAIHelper } from '@/server';
+import { visionProvider } from '@/server';
+import { parseJSONResponse } from '@/services/helpers';
 import { isBase64Image } from '@/utils/data';
+import { logger } from '@/utils/logger';
+import { getValidationMessages } from '@/utils/validation';
+import { ReceiptVerdictDto } from '@/dtos/verdict.dto';
+import { ReceiptVerdict } from '@/interfaces/verdict.interface';
+import { VISION_MAX_RETRIES } from '@config';
 import { Service } from 'typedi';
 
 @Service()
 export class OpenaiService {
-  public async validateImage(image: string): Promise<unknown> {
+  public async validateImage(image: string): Promise<ReceiptVerdict> {
     if (!isBase64Image(image)) throw new HttpException(400, 'Invalid image format');
 
     const prompt = `
@@ -18,16 +26,55 @@ export class OpenaiService {
                     {
                     "validityFactor": {validityFactorNumber}, // 0-1, 1 if it satisfies all the criteria, 0 otherwise
                     "descriptionOfAnalysis": "{analysis}", // indicate your analysis of the image and why it satisfies or not the criteria. The analysis will be shown to the user so make him understand why the image doesn't satisfy the criteria if it doesn't without going into detail on exact criteria. Remember we are rewarding users that drink coffee in a sustainable way.
+                    "isReceipt": {boolean}, // criteria 1
+                    "isScreenshot": {boolean}, // criteria 2
+                    "hasPurchaseDate": {boolean}, // criteria 3
+                    "hasStoreName": {boolean}, // criteria 4
+                    "storeName": "{storeName}", // name of the store, null if not readable
+                    "purchaseDate": "{purchaseDate}", // date of the purchase formatted as YYYY-MM-DD, null if not readable
+                    "currency": "{currency}", // ISO 4217 code of the currency of the receipt (e.g. EUR, USD), null if unknown
+                    "total": {total}, // total amount paid as a number, null if not readable
+                    "lineItems": [{ "name": "{productName}", "quantity": {quantity}, "price": {price} }] // purchased products, price being the total price of the line as a number
                     }
                     `;
 
-    const gptResponse = await openAIHelper.askChatGPTAboutImage({
-      base64Image: image,
-      prompt,
-    });
+    let request = prompt;
 
-    const responseJSONStr = openAIHelper.getResponseJSONString(gptResponse);
+    // The model is asked again, with the reason of the failure, as long as it does not answer with a valid verdict
+    for (let attempt = 0; attempt <= VISION_MAX_RETRIES; attempt++) {
+      const responseJSONStr = await visionProvider.analyzeImage({
+        base64Image: image,
+        prompt: request,
+        maxTokens: 1000, // leaves room for the line items of long receipts
+      });
 
-    return openAIHelper.parseChatGPTJSONString(responseJSONStr);
+      const { verdict, errors } = await this.parseVerdict(responseJSONStr);
+      if (verdict) return verdict;
+
+      logger.warn(`Invalid verdict from ${visionProvider.name} (attempt ${attempt + 1}/${VISION_MAX_RETRIES + 1}): ${errors.join(', ')}`);
+
+      request = `${prompt}
+                    Your previous answer was not valid: ${errors.join(', ')}.
+                    Previous answer: ${responseJSONStr ?? '(empty)'}
+                    Answer again with the JSON object only, without any other text.
+                    `;
+    }
+
+    throw new HttpException(502, 'The AI could not analyse your receipt, please try again later');
+  }
+
+  private async parseVerdict(responseJSONStr: string | null): Promise<{ verdict?: ReceiptVerdict; errors: string[] }> {
+    const parsed = parseJSONResponse<object>(responseJSONStr);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      return { errors: ['the answer is not a JSON object'] };
+    }
+
+    const verdict = plainToInstance(ReceiptVerdictDto, parsed);
+    const errors: ValidationError[] = await validate(verdict, { whitelist: true });
+    if (errors.length > 0) {
+      return { errors: getValidationMessages(errors) };
+    }
+
+    return { verdict, errors: [] };
   }
 }
@@ -0,0 +1,101 @@
+import { Container, Service } from 'typedi';
+import { SubmissionProof } from '@/interfaces/proof.interface';
+import { Submission } from '@/interfaces/submission.interface';
+import { BalanceService } from '@/services/balance.service';
+import { RewardBatchService } from '@/services/batch.service';
+import { OpenaiService } from '@/services/openai.service';
+import { RewardService } from '@/services/reward.service';
+import { RulesService } from '@/services/rules.service';
+import { SubmissionService } from '@/services/submission.service';
+import { logger } from '@/utils/logger';
+import { SUBMISSION_QUEUE_CONCURRENCY } from '@config';
+
+interface QueuedSubmission {
+  submission: Submission;
+  image: string;
+}
+
+/**
+ * In-process queue validating and rewarding submissions in the background, so the participant does not have to
+ * keep a request open during the AI analysis and the on-chain transaction
+ */
+@Service()
+export class QueueService {
+  public openai = Container.get(OpenaiService);
+  public submissions = Container.get(SubmissionService);
+  public rules = Container.get(RulesService);
+  public rewards = Container.get(RewardService);
+  public balances = Container.get(BalanceService);
+  public batches = Container.get(RewardBatchService);
+
+  private queue: QueuedSubmission[] = [];
+  private running = 0;
+
+  public enqueue(submission: Submission, image: string): void {
+    this.queue.push({ submission, image });
+    this.next();
+  }
+
+  private next(): void {
+    while (this.running < SUBMISSION_QUEUE_CONCURRENCY && this.queue.length > 0) {
+      const job = this.queue.shift();
+      this.running++;
+
+      this.process(job)
+        .catch(error => logger.error(`Could not record the outcome of submission ${job.submission._id}: ${error}`))
+        .finally(() => {
+          this.running--;
+          this.next();
+        });
+    }
+  }
+
+  private async process({ submission, image }: QueuedSubmission): Promise<void> {
+    try {
+      await this.submissions.updateSubmission(submission._id, { status: 'validating' });
+
+      const validationResult = await this.openai.validateImage(image);
+      const validityFactor = validationResult.validityFactor;
+
+      const rules = await this.rules.evaluate(submission, validationResult);
+      const reasons = rules.filter(rule => !rule.passed).map(rule => rule.reason);
+
+      await this.submissions.updateSubmission(submission._id, { validityFactor, verdict: validationResult, rules });
+
+      if (validityFactor <= 0.5 || reasons.length > 0) {
+        await this.submissions.updateSubmission(submission._id, { status: 'rejected', reason: reasons.join(', ') || undefined });
+        return;
+      }
+
+      const reward = await this.rewards.computeReward(validationResult);
+      if (reward.amount === BigInt(0)) {
+        await this.submissions.updateSubmission(submission._id, { status: 'rejected', reason: 'No sustainable product was found on the receipt' });
+        return;
+      }
+
+      await this.submissions.updateSubmission(submission._id, { status: 'rewarding', reward: reward.amount.toString() });
+
+      // The reward is sent along with those of other submissions, the queue moves on in the meantime
+      const proof = this.rewards.buildProof(submission, validationResult, reward);
+      this.distribute(submission, reward.amount, proof).catch(error =>
+        logger.error(`Could not record the outcome of submission ${submission._id}: ${error}`),
+      );
+    } catch (error) {
+      logger.error(`Submission ${submission._id} was not rewarded: ${error.message}`);
+      await this.submissions.recordError(submission._id, error);
+    }
+  }
+
+  private async distribute(submission: Submission, amount: bigint, proof: SubmissionProof): Promise<void> {
+    try {
+      const reward = await this.batches.add(submission, amount, proof, txId => this.submissions.updateSubmission(submission._id, { txId }));
+      await this.submissions.updateSubmission(submission._id, { status: 'rewarded', txId: reward.txId, reward: reward.amount.toString() });
+    } catch (error) {
+      logger.error(`Submission ${submission._id} was not rewarded: ${error.message}`);
+      await this.submissions.recordError(submission._id, error);
+    } finally {
+      // Rewards left changed, or the transaction was reverted as they or the cycle did
+      this.balances.invalidate();
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { Container, Service } from 'typedi';
+import { unitsUtils } from '@vechain/sdk-core';
+import { HttpException } from '@/exceptions/HttpException';
+import { CatalogueCategory, ImpactCode, Reward, RewardedItem } from '@/interfaces/catalogue.interface';
+import { SubmissionProof } from '@/interfaces/proof.interface';
+import { Submission } from '@/interfaces/submission.interface';
+import { ReceiptVerdict } from '@/interfaces/verdict.interface';
+import { ContractsService } from '@/services/contracts.service';
+import { loadCatalogue } from '@/utils/catalogue';
+import { MAX_POINTS_PER_SUBMISSION, PROOF_IMAGE_BASE_URL, REWARD_AMOUNT, REWARD_CATALOGUE_PATH } from '@config';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Points are rounded to this precision before being converted to wei, bigint arithmetic being integer only
+const POINTS_PRECISION = 1000;
+
+// The description is stored on chain, longer analyses are cut to keep the transaction cheap
+const PROOF_DESCRIPTION_MAX_LENGTH = 280;
+
+// The X2EarnRewardsPool builds the proof JSON by concatenation, so values are escaped beforehand
+const escapeJson = (value: string) => JSON.stringify(value).slice(1, -1);
+
+/**
+ * Computes the reward of a submission from the sustainable products found on the receipt
+ */
+@Service()
+export class RewardService {
+  public contracts = Container.get(ContractsService);
+
+  private categories = loadCatalogue(REWARD_CATALOGUE_PATH).categories.map(category => ({
+    ...category,
+    patterns: category.keywords.map(keyword => new RegExp(`\\b${escapeRegExp(keyword)}\\b`, 'i')),
+  }));
+
+  /**
+   * Each line item matching a category of the catalogue earns `REWARD_AMOUNT` times the weight of the category and the quantity bought.
+   * The total is capped by `MAX_POINTS_PER_SUBMISSION` and by the rewards left in the current cycle.
+   */
+  public async computeReward(verdict: ReceiptVerdict): Promise<Reward> {
+    const items: RewardedItem[] = [];
+    const impacts: Partial<Record<ImpactCode, number>> = {};
+
+    for (const item of verdict.lineItems ?? []) {
+      const category = this.findCategory(item.name);
+      if (!category) continue;
+
+      items.push({ name: item.name, category: category.name, points: category.weight * item.quantity });
+      for (const impact of category.impacts ?? []) {
+        impacts[impact.code] = (impacts[impact.code] ?? 0) + impact.value * item.quantity;
+      }
+    }
+
+    const total = items.reduce((sum, item) => sum + item.points, 0);
+    const points = MAX_POINTS_PER_SUBMISSION > 0 ? Math.min(total, MAX_POINTS_PER_SUBMISSION) : total;
+    if (points === 0) return { amount: BigInt(0), items, impacts };
+
+    const amount = (unitsUtils.parseUnits(REWARD_AMOUNT, 'ether') * BigInt(Math.round(points * POINTS_PRECISION))) / BigInt(POINTS_PRECISION);
+
+    const rewardsLeft = await this.contracts.getRewardsLeft();
+    if (rewardsLeft === BigInt(0)) throw new HttpException(409, 'EcoEarn: No rewards left for this cycle');
+
+    return { amount: amount < rewardsLeft ? amount : rewardsLeft, items, impacts };
+  }
+
+  /**
+   * The receipt is proven by the hash of its image, or by a link to it when `PROOF_IMAGE_BASE_URL` is set, and described by the AI analysis.
+   * Impacts are rounded to whole units, those rounding to zero are left out.
+   */
+  public buildProof(submission: Submission, verdict: ReceiptVerdict, reward: Reward): SubmissionProof {
+    const proofTypes: string[] = [];
+    const proofValues: string[] = [];
+
+    if (submission.imageHash) {
+      if (PROOF_IMAGE_BASE_URL) {
+        proofTypes.push('link');
+        proofValues.push(escapeJson(`${PROOF_IMAGE_BASE_URL.replace(/\/$/, '')}/${submission.imageHash}`));
+      } else {
+        proofTypes.push('image');
+        proofValues.push(submission.imageHash);
+      }
+    }
+
+    const impacts = Object.entries(reward.impacts)
+      .map(([code, value]) => ({ code, value: Math.round(value) }))
+      .filter(impact => impact.value > 0);
+
+    return {
+      proofTypes,
+      proofValues,
+      impactCodes: impacts.map(impact => impact.code),
+      impactValues: impacts.map(impact => BigInt(impact.value)),
+      description: escapeJson((verdict.descriptionOfAnalysis ?? '').slice(0, PROOF_DESCRIPTION_MAX_LENGTH)),
+    };
+  }
+
+  private findCategory(itemName: string): CatalogueCategory | undefined {
+    return this.categories.find(category => category.patterns.some(pattern => pattern.test(itemName)));
+  }
+}
@@ -0,0 +1,29 @@
+import { Container, Service } from 'typedi';
+import { RuleResult, SubmissionRule } from '@/interfaces/rule.interface';
+import { Submission } from '@/interfaces/submission.interface';
+import { ReceiptVerdict } from '@/interfaces/verdict.interface';
+import { ContractsService } from '@/services/contracts.service';
+import { purchaseDateInCurrentCycle, purchaseDateNotInFuture, purchaseDateWithinDays, storeNotBlocklisted } from '@/services/helpers/rules';
+import { RECEIPT_DATE_IN_CYCLE, RECEIPT_MAX_AGE_DAYS, STORE_BLOCKLIST } from '@config';
+
+/**
+ * Checks the data extracted from a receipt against the configured business rules
+ */
+@Service()
+export class RulesService {
+  public contracts = Container.get(ContractsService);
+
+  private rules: SubmissionRule[] = [
+    purchaseDateNotInFuture(),
+    ...(RECEIPT_MAX_AGE_DAYS > 0 ? [purchaseDateWithinDays(RECEIPT_MAX_AGE_DAYS)] : []),
+    ...(RECEIPT_DATE_IN_CYCLE ? [purchaseDateInCurrentCycle()] : []),
+    ...(STORE_BLOCKLIST.length > 0 ? [storeNotBlocklisted(STORE_BLOCKLIST)] : []),
+  ];
+
+  public async evaluate(submission: Submission, verdict: ReceiptVerdict): Promise<RuleResult[]> {
+    let cycleStart: Promise<number> | undefined;
+    const getCycleStart = () => (cycleStart ??= this.contracts.getCurrentCycleStartTimestamp());
+
+    return Promise.all(this.rules.map(rule => rule.evaluate({ submission, verdict, getCycleStart })));
+  }
+}
@@ -0,0 +1,134 @@
+import { Container, Service } from 'typedi';
+import { unitsUtils } from '@vechain/sdk-core';
+import { AdminService } from '@/services/admin.service';
+import { ContractsService } from '@/services/contracts.service';
+import { logger } from '@/utils/logger';
+import { retry } from '@/utils/retry';
+import { thor } from '@/utils/thor';
+import { CYCLE_REWARDS_AMOUNT, CYCLE_SCHEDULER_INTERVAL, CYCLE_SCHEDULER_MAX_RETRIES, CYCLE_WITHDRAW_REWARDS } from '@config';
+
+// Recorded as the actor of the admin actions in the audit log
+const ACTOR = 'scheduler';
+
+/**
+ * Starts a new cycle as soon as the current one is over, so submissions are never rejected because the cycle ended.
+ *
+ * Every step reads the contract state before sending a transaction, so a rollover which failed halfway is resumed
+ * on the next tick instead of being repeated. Only one backend instance should run the scheduler.
+ *
+ * The past cycles whose rewards left are still to be withdrawn are read from the contract on every tick, whether the current
+ * cycle is over or not, so a withdrawal which failed is retried even after a restart.
+ */
+@Service()
+export class CycleSchedulerService {
+  public admin = Container.get(AdminService);
+  public contracts = Container.get(ContractsService);
+
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  // Past cycles before this one have no rewards left, they are not read again on every tick
+  private firstCycleToWithdraw = 1;
+
+  public start(): void {
+    logger.info('Cycle scheduler started', {
+      interval: CYCLE_SCHEDULER_INTERVAL,
+      rewardsAmount: CYCLE_REWARDS_AMOUNT,
+      withdrawRewards: CYCLE_WITHDRAW_REWARDS,
+    });
+    this.timer = setInterval(() => this.tick(), CYCLE_SCHEDULER_INTERVAL * 1000);
+    this.tick();
+  }
+
+  public stop(): void {
+    clearInterval(this.timer);
+  }
+
+  private async tick(): Promise<void> {
+    // A rollover can take longer than the interval, ticks must not overlap
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      await this.withdrawPendingRewards();
+      if (!(await this.isCycleOver())) return;
+
+      const cycle = await this.contracts.getCurrentCycle();
+      logger.info('Cycle is over, starting the next one', { cycle });
+
+      await this.step('setRewardsAmount', cycle, () => this.allocateRewards());
+      await this.step('triggerCycle', cycle, () => this.triggerCycle());
+      await this.withdrawPendingRewards();
+
+      logger.info('Cycle started', { cycle: cycle + 1 });
+    } catch (error) {
+      logger.error('Cycle rollover failed, it will be resumed on the next tick', { error: error.message });
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async step(name: string, cycle: number, fn: () => Promise<void>): Promise<void> {
+    await retry(fn, {
+      retries: CYCLE_SCHEDULER_MAX_RETRIES,
+      delay: 2000,
+      onRetry: (error, attempt) => logger.warn('Cycle rollover step failed, retrying', { step: name, cycle, attempt, error: error.message }),
+    });
+  }
+
+  private async isCycleOver(): Promise<boolean> {
+    const [best, nextCycleBlock] = await Promise.all([thor.blocks.getBestBlockCompressed(), this.contracts.getNextCycleBlock()]);
+    return Boolean(best) && best.number >= nextCycleBlock;
+  }
+
+  private async allocateRewards(): Promise<void> {
+    if (!CYCLE_REWARDS_AMOUNT) return;
+
+    const nextCycle = await this.contracts.getNextCycle();
+    if ((await this.contracts.getRewards(nextCycle)) > BigInt(0)) {
+      logger.info('Rewards already allocated to the next cycle', { cycle: nextCycle });
+      return;
+    }
+
+    const { txId } = await this.admin.setRewardsAmount(ACTOR, CYCLE_REWARDS_AMOUNT);
+    logger.info('Rewards allocated', { cycle: nextCycle, amount: CYCLE_REWARDS_AMOUNT, txId });
+  }
+
+  private async triggerCycle(): Promise<void> {
+    if (!(await this.isCycleOver())) {
+      logger.info('Next cycle already started');
+      return;
+    }
+
+    const { txId } = await this.admin.triggerCycle(ACTOR);
+    logger.info('Cycle triggered', { txId });
+  }
+
+  /**
+   * Withdraws the rewards left in every past cycle. A failed withdrawal is logged instead of thrown, so it does not hold back
+   * the rollover of the next cycles.
+   */
+  private async withdrawPendingRewards(): Promise<void> {
+    if (!CYCLE_WITHDRAW_REWARDS) return;
+
+    // `withdrawRewards` only accepts past cycles, so the remaining rewards are withdrawn once the next cycle started
+    const currentCycle = await this.contracts.getCurrentCycle();
+    let withdrawn = true;
+    for (let cycle = this.firstCycleToWithdraw; cycle < currentCycle; cycle++) {
+      try {
+        await this.step('withdrawRewards', cycle, () => this.withdrawRewards(cycle));
+        if (withdrawn) this.firstCycleToWithdraw = cycle + 1;
+      } catch (error) {
+        withdrawn = false;
+        logger.error('Remaining rewards could not be withdrawn, it will be retried on the next tick', { cycle, error: error.message });
+      }
+    }
+  }
+
+  private async withdrawRewards(cycle: number): Promise<void> {
+    const rewardsLeft = await this.contracts.getRewardsLeft(cycle);
+    if (rewardsLeft === BigInt(0)) return;
+
+    const { txId } = await this.admin.withdrawRewards(ACTOR, cycle);
+    logger.info('Remaining rewards withdrawn', { cycle, amount: unitsUtils.formatUnits(rewardsLeft, 'ether'), txId });
+  }
+}
@@ -0,0 +1,115 @@
+import { EventEmitter } from 'events';
+import { Container, Service } from 'typedi';
+import { HttpException } from '@/exceptions/HttpException';
+import { Submission, SubmissionJob, SubmissionStatus } from '@/interfaces/submission.interface';
+import { SUBMISSION_REPOSITORY } from '@/repositories';
+import { hashImage, isBase64Image } from '@/utils/data';
+import { computeDifferenceHash } from '@/utils/image';
+import { DUPLICATE_IMAGE_MAX_DISTANCE } from '@config';
+import { unitsUtils } from '@vechain/sdk-core';
+
+export const FINAL_STATUSES: SubmissionStatus[] = ['rejected', 'rewarded', 'failed'];
+
+const toSubmissionJob = (submission: Submission): SubmissionJob => ({
+  id: submission._id,
+  status: submission.status,
+  reason: submission.reason,
+  validation: submission.verdict,
+  rules: submission.rules,
+  reward: submission.reward && unitsUtils.formatUnits(submission.reward, 'ether'),
+  txId: submission.txId,
+});
+
+@Service()
+export class SubmissionService {
+  private repository = Container.get(SUBMISSION_REPOSITORY);
+  // Emits the progress of a submission, using its id as event name
+  private events = new EventEmitter().setMaxListeners(0);
+  // Duplicate checks run one at a time, two uploads of the same receipt could otherwise both pass before either hash is stored
+  private duplicateCheck: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Stores a new submission attempt. The image itself is not persisted, only its hash.
+   */
+  public async createSubmission(submission: Submission): Promise<Submission> {
+    return this.repository.create({
+      ...submission,
+      imageHash: submission.image ? hashImage(submission.image) : undefined,
+      status: 'queued',
+    });
+  }
+
+  /**
+   * Rejects images that are (near) duplicates of an image already submitted, by the same or any other address.
+   * The perceptual hash of the image is stored so later submissions can be compared against it.
+   */
+  public async assertNotDuplicate(id: string, image: string): Promise<void> {
+    if (!isBase64Image(image)) throw new HttpException(400, 'Invalid image format');
+
+    let perceptualHash: string;
+    try {
+      perceptualHash = await computeDifferenceHash(image);
+    } catch (error) {
+      throw new HttpException(400, 'Invalid image format');
+    }
+
+    const check = this.duplicateCheck.then(async () => {
+      const duplicate = await this.repository.findSimilarImage(perceptualHash, DUPLICATE_IMAGE_MAX_DISTANCE);
+      await this.repository.update(id, { perceptualHash });
+      return duplicate;
+    });
+    this.duplicateCheck = check.catch(() => undefined);
+
+    if (await check) throw new HttpException(409, 'This receipt has already been submitted');
+  }
+
+  public async updateSubmission(id: string, changes: Partial<Submission>): Promise<Submission> {
+    const submission = await this.repository.update(id, changes);
+    if (!submission) throw new HttpException(404, `Submission ${id} not found`);
+
+    this.events.emit(id, toSubmissionJob(submission));
+    return submission;
+  }
+
+  /**
+   * Marks a submission as rejected (client errors) or failed (server errors), keeping the reason for auditing
+   */
+  public async recordError(id: string, error: HttpException): Promise<void> {
+    const status = error.status && error.status < 500 ? 'rejected' : 'failed';
+    const submission = await this.repository.update(id, { status, reason: error.message });
+    if (submission) this.events.emit(id, toSubmissionJob(submission));
+  }
+
+  public async getSubmission(id: string): Promise<Submission> {
+    const submission = await this.repository.findById(id);
+    if (!submission) throw new HttpException(404, `Submission ${id} not found`);
+    return submission;
+  }
+
+  /**
+   * @returns The progress of a submission, without the data only meant for auditing
+   */
+  public async getSubmissionJob(id: string): Promise<SubmissionJob> {
+    return toSubmissionJob(await this.getSubmission(id));
+  }
+
+  /**
+   * Calls the listener every time the submission progresses
+   * @returns A function to stop listening
+   */
+  public subscribe(id: string, listener: (job: SubmissionJob) => void): () => void {
+    this.events.on(id, listener);
+    return () => this.events.off(id, listener);
+  }
+
+  /**
+   * Jobs only live in memory, submissions which were still being processed when the server stopped can not be resumed
+   */
+  public async failInterruptedSubmissions(): Promise<number> {
+    return this.repository.updateByStatus(['queued', 'validating', 'rewarding'], { status: 'failed', reason: 'Interrupted by a server restart' });
+  }
+
+  public async getSubmissionsByAddress(address: string): Promise<Submission[]> {
+    return this.repository.findByAddress(address);
+  }
+}
@@ -0,0 +1,113 @@
+import { Service } from 'typedi';
+import { TransactionHandler } from '@vechain/sdk-core';
+import { TransactionReceipt } from '@vechain/sdk-network';
+import { TransactionExpiredException, TransactionRevertedException, toRevertException } from '@/exceptions/TransactionException';
+import { AdminTransaction } from '@/interfaces/admin.interface';
+import { logger } from '@/utils/logger';
+import { Clause } from '@/utils/model';
+import { retry } from '@/utils/retry';
+import { adminSigner, thor } from '@/utils/thor';
+import { TX_EXPIRATION, TX_GAS_PADDING, TX_MAX_RETRIES, TX_RETRY_DELAY } from '@config';
+
+// Seconds between two blocks, used to know when a transaction which was not included has expired
+const BLOCK_TIME = 10;
+
+/**
+ * Sends the transactions of the admin account one at a time, each waiting for the previous one to be included, so they
+ * are never estimated against a state that is about to change and do not compete for the same rewards.
+ *
+ * A transaction is signed once, with a random nonce, and the very same transaction is sent again when sending it fails,
+ * so it cannot be included twice. It is only signed again once it expired without being included.
+ */
+@Service()
+export class TransactionService {
+  private pending: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param onSent Called with the id of the transaction once it is sent, before it is confirmed
+   * @throws {TransactionRevertedException} When the contract reverts the transaction, or would revert it
+   */
+  public async execute(clauses: Clause[], onSent?: (txId: string) => Promise<unknown>): Promise<AdminTransaction> {
+    const result = this.pending.then(() =>
+      retry(() => this.send(clauses, onSent), {
+        retries: TX_MAX_RETRIES,
+        delay: TX_RETRY_DELAY * 1000,
+        retryIf: error => error instanceof TransactionExpiredException,
+        onRetry: (error, attempt) => logger.warn('Transaction expired, sending it again', { attempt, error: error.message }),
+      }),
+    );
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Simulates the clauses as they would be executed in a single transaction, one reverted clause reverting the whole transaction
+   * @returns The index of the first clause the contract would revert along with the matching exception, undefined if none would
+   */
+  public async findRevertedClause(clauses: Clause[]): Promise<{ index: number; error: TransactionRevertedException } | undefined> {
+    const estimate = await this.withRetries('simulate', async () => thor.gas.estimateGas(clauses, await adminSigner.getAddress()));
+    if (!estimate.reverted) return;
+
+    // Clauses after the reverted one are not simulated
+    const index = estimate.vmErrors.findIndex(Boolean) >= 0 ? estimate.vmErrors.findIndex(Boolean) : estimate.vmErrors.length - 1;
+    return { index, error: toRevertException(String(estimate.revertReasons[index] || estimate.vmErrors[index] || '')) };
+  }
+
+  private async send(clauses: Clause[], onSent?: (txId: string) => Promise<unknown>): Promise<AdminTransaction> {
+    const gas = await this.withRetries('estimate gas', () => this.estimateGas(clauses));
+
+    const raw = await adminSigner.signTransaction({ clauses, gas, expiration: TX_EXPIRATION });
+    const txId = TransactionHandler.decode(Buffer.from(raw.slice(2), 'hex'), true).id;
+
+    await this.withRetries('send transaction', () => this.sendRaw(raw));
+    await onSent?.(txId);
+
+    const receipt = await this.withRetries('wait for receipt', () =>
+      thor.transactions.waitForTransaction(txId, { timeoutMs: (TX_EXPIRATION + 2) * BLOCK_TIME * 1000 }),
+    );
+    if (!receipt) throw new TransactionExpiredException(txId);
+    if (receipt.reverted) throw await this.explainRevert(clauses, receipt);
+
+    return { txId, receipt };
+  }
+
+  private async estimateGas(clauses: Clause[], revision?: string): Promise<number> {
+    const estimate = await thor.gas.estimateGas(clauses, await adminSigner.getAddress(), { gasPadding: TX_GAS_PADDING || undefined, revision });
+    if (estimate.reverted) throw toRevertException(estimate.revertReasons.filter(Boolean).join(', ') || estimate.vmErrors.join(', '));
+    // The padding makes the estimate fractional, transactions only take whole units of gas
+    return Math.ceil(estimate.totalGas);
+  }
+
+  private async sendRaw(raw: string): Promise<void> {
+    try {
+      await thor.transactions.sendRawTransaction(raw);
+    } catch (error) {
+      // A previous attempt did reach the node even though it failed on our side
+      if (!/known tx/i.test(error.message)) throw error;
+    }
+  }
+
+  /**
+   * Receipts do not contain the revert reason, the transaction is simulated again on top of the previous block to get it
+   */
+  private async explainRevert(clauses: Clause[], receipt: TransactionReceipt): Promise<TransactionRevertedException> {
+    try {
+      await this.estimateGas(clauses, String(receipt.meta.blockNumber - 1));
+    } catch (error) {
+      if (error instanceof TransactionRevertedException) return error;
+    }
+    return new TransactionRevertedException(`Transaction ${receipt.meta.txID} reverted`);
+  }
+
+  /**
+   * Retries calls to the node which failed, reverts being final
+   */
+  private withRetries<T>(step: string, fn: () => Promise<T>): Promise<T> {
+    return retry(fn, {
+      retries: TX_MAX_RETRIES,
+      delay: TX_RETRY_DELAY * 1000,
+      retryIf: error => !(error instanceof TransactionRevertedException),
+      onRetry: (error, attempt) => logger.warn('Transaction step failed, retrying', { step, attempt, error: error.message }),
+    });
+  }
+}
@@ -0,0 +1,69 @@
+import { Container, Service } from 'typedi';
+import { unitsUtils } from '@vechain/sdk-core';
+import { UserActivity } from '@/interfaces/user.interface';
+import { UserSettings } from '@/interfaces/settings.interface';
+import { CONTRACT_EVENT_REPOSITORY, USER_SETTINGS_REPOSITORY } from '@/repositories';
+import { ContractsService } from '@/services/contracts.service';
+import { SubmissionService } from '@/services/submission.service';
+
+/**
+ * Combines the submissions stored by the backend with the indexed contract events, so participants can follow what they earned
+ */
+@Service()
+export class UserService {
+  public contracts = Container.get(ContractsService);
+  public submissions = Container.get(SubmissionService);
+
+  private events = Container.get(CONTRACT_EVENT_REPOSITORY);
+  private settings = Container.get(USER_SETTINGS_REPOSITORY);
+
+  public async getActivity(address: string): Promise<UserActivity> {
+    const cycle = await this.contracts.getCurrentCycle();
+    const [submissionsThisCycle, maxSubmissionsPerCycle, rewardEvents, submissions, settings] = await Promise.all([
+      this.events.count({ name: 'Submission', participant: address, cycle }),
+      this.contracts.getMaxSubmissionsPerCycle(),
+      this.events.find({ name: 'Submission', participant: address }),
+      this.submissions.getSubmissionsByAddress(address),
+      this.getSettings(address),
+    ]);
+
+    const confirmedTxIds = new Set(rewardEvents.map(event => event.txId));
+    const totalEarned = rewardEvents.reduce((sum, event) => sum + BigInt(event.amount), BigInt(0));
+
+    return {
+      address,
+      cycle,
+      submissionsThisCycle,
+      maxSubmissionsPerCycle,
+      submissionsLeft: Math.max(maxSubmissionsPerCycle - submissionsThisCycle, 0),
+      totalEarned: unitsUtils.formatUnits(totalEarned, 'ether'),
+      hiddenFromLeaderboard: settings.hiddenFromLeaderboard,
+      // The AI verdict is left out, it describes the purchases of the participant and the endpoint is public
+      submissions: submissions.map(submission => ({
+        id: submission._id,
+        cycle: submission.round,
+        timestamp: submission.timestamp,
+        status: submission.status,
+        reason: submission.reason,
+        validityFactor: submission.validityFactor,
+        reward: submission.reward && unitsUtils.formatUnits(submission.reward, 'ether'),
+        txId: submission.txId,
+        confirmed: confirmedTxIds.has(submission.txId),
+      })),
+      rewards: rewardEvents.map(event => ({
+        txId: event.txId,
+        blockNumber: event.blockNumber,
+        timestamp: event.timestamp,
+        amount: unitsUtils.formatUnits(event.amount, 'ether'),
+      })),
+    };
+  }
+
+  public async getSettings(address: string): Promise<UserSettings> {
+    return (await this.settings.find(address)) ?? { address: address.toLowerCase(), hiddenFromLeaderboard: false };
+  }
+
+  public async updateSettings(address: string, changes: Partial<Omit<UserSettings, 'address' | 'updatedAt'>>): Promise<UserSettings> {
+    return this.settings.save({ ...(await this.getSettings(address)), ...changes });
+  }
+}
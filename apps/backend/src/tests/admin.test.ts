@@ -0,0 +1,144 @@
+import 'reflect-metadata';
+import request from 'supertest';
+import { Container } from 'typedi';
+import { App } from '@/app';
+import { HttpException } from '@/exceptions/HttpException';
+import { EcoEarnRole } from '@/interfaces/admin.interface';
+import { initializeRepositories } from '@/repositories';
+import { AdminRoute } from '@/routes/admin.route';
+import { AuthService } from '@/services/auth.service';
+import { BalanceService } from '@/services/balance.service';
+import { ContractsService } from '@/services/contracts.service';
+import { TransactionService } from '@/services/transaction.service';
+
+// The contracts are not deployed when testing
+jest.mock('@/services/balance.service', () => ({ BalanceService: class {} }));
+jest.mock('@/services/contracts.service', () => ({ ContractsService: class {} }));
+jest.mock('@/services/transaction.service', () => ({ TransactionService: class {} }));
+jest.mock('@/utils/thor', () => ({ buildEcoEarnClause: (method: string, args: unknown[]) => ({ method, args }) }));
+
+describe('AdminRoute', () => {
+  const cycleManager = '0x7567d83b7b8d80addcb281a71d54fc7b3364ffed';
+  const admin = '0xd3ae78222beadb038203be21ed5ce7c9b1bff602';
+
+  let roles: Record<string, EcoEarnRole[]>;
+  let transactions: { execute: jest.Mock };
+
+  const createApp = (signerRoles: EcoEarnRole[]) => new App([new AdminRoute(signerRoles)]).getServer();
+
+  const authorization = (address: string) => `Bearer ${Container.get(AuthService).createToken({ address }).token}`;
+
+  beforeEach(() => {
+    roles = { [cycleManager]: ['CYCLE_MANAGER_ROLE'], [admin]: ['DEFAULT_ADMIN_ROLE'] };
+    transactions = {
+      execute: jest.fn(async (clauses, onSent) => {
+        await onSent?.('0x01');
+        return { txId: '0x01', receipt: { reverted: false } };
+      }),
+    };
+
+    Container.reset();
+    initializeRepositories();
+    Container.set(BalanceService, { invalidate: jest.fn() });
+    Container.set(ContractsService, { hasRole: async (role: EcoEarnRole, address: string) => roles[address]?.includes(role) ?? false });
+    Container.set(TransactionService, transactions);
+  });
+
+  describe('[POST] /admin/trigger-cycle', () => {
+    it('lets a cycle manager start the next cycle', async () => {
+      const app = createApp(['VALIDATOR_ROLE', 'CYCLE_MANAGER_ROLE']);
+
+      await request(app)
+        .post('/admin/trigger-cycle')
+        .set('Authorization', authorization(cycleManager))
+        .expect(200, { txId: '0x01', receipt: { reverted: false } });
+      expect(transactions.execute).toHaveBeenCalledWith([{ method: 'triggerCycle', args: [] }], expect.any(Function));
+    });
+
+    it('refuses the callers without the cycle manager role, admins included', async () => {
+      const app = createApp(['VALIDATOR_ROLE', 'CYCLE_MANAGER_ROLE']);
+
+      await request(app).post('/admin/trigger-cycle').set('Authorization', authorization(admin)).expect(403);
+      expect(transactions.execute).not.toHaveBeenCalled();
+    });
+
+    it('requires a session', async () => {
+      await request(createApp(['VALIDATOR_ROLE', 'CYCLE_MANAGER_ROLE']))
+        .post('/admin/trigger-cycle')
+        .expect(401);
+    });
+
+    it('is not exposed when the backend signer is not a cycle manager', async () => {
+      const app = createApp(['VALIDATOR_ROLE']);
+
+      await request(app).post('/admin/trigger-cycle').set('Authorization', authorization(cycleManager)).expect(404);
+    });
+  });
+
+  describe('[POST] /admin/app-id', () => {
+    const appId = `0x${'ab'.repeat(32)}`;
+
+    it('is not exposed when the backend signer is not an admin', async () => {
+      const app = createApp(['VALIDATOR_ROLE', 'CYCLE_MANAGER_ROLE']);
+
+      await request(app).post('/admin/app-id').set('Authorization', authorization(admin)).send({ appId }).expect(404);
+    });
+
+    it('requires the admin role when the backend signer holds it', async () => {
+      const app = createApp(['VALIDATOR_ROLE', 'CYCLE_MANAGER_ROLE', 'DEFAULT_ADMIN_ROLE']);
+
+      await request(app).post('/admin/app-id').set('Authorization', authorization(cycleManager)).send({ appId }).expect(403);
+      await request(app).post('/admin/app-id').set('Authorization', authorization(admin)).send({ appId }).expect(200);
+      expect(transactions.execute).toHaveBeenCalledWith([{ method: 'setAppId', args: [appId] }], expect.any(Function));
+    });
+  });
+
+  describe('[POST] /admin/rewards-amount', () => {
+    const app = () => createApp(['VALIDATOR_ROLE', 'CYCLE_MANAGER_ROLE']);
+
+    it('records the action sent in the audit log', async () => {
+      await request(app()).post('/admin/rewards-amount').set('Authorization', authorization(cycleManager)).send({ amount: '1500.5' }).expect(200);
+
+      const { body } = await request(app()).get('/admin/audit-log').set('Authorization', authorization(cycleManager)).expect(200);
+      expect(body).toEqual([
+        {
+          _id: 1,
+          action: 'setRewardsAmount',
+          actor: cycleManager,
+          params: { amount: '1500.5' },
+          status: 'success',
+          txId: '0x01',
+          timestamp: expect.any(Number),
+        },
+      ]);
+      expect(transactions.execute).toHaveBeenCalledWith(
+        [{ method: 'setRewardsAmount', args: [BigInt('1500500000000000000000')] }],
+        expect.any(Function),
+      );
+    });
+
+    it('records a reverted action in the audit log, along with its error', async () => {
+      transactions.execute.mockImplementation(async (clauses, onSent) => {
+        await onSent('0x02');
+        throw new HttpException(409, 'Not enough rewards left');
+      });
+
+      await request(app()).post('/admin/rewards-amount').set('Authorization', authorization(cycleManager)).send({ amount: '10' }).expect(409);
+
+      const { body } = await request(app()).get('/admin/audit-log').set('Authorization', authorization(admin)).expect(200);
+      expect(body).toEqual([
+        expect.objectContaining({ action: 'setRewardsAmount', status: 'failed', txId: '0x02', error: 'Not enough rewards left' }),
+      ]);
+    });
+  });
+
+  describe('[GET] /admin/audit-log', () => {
+    it('is readable by cycle managers and admins', async () => {
+      const app = createApp(['VALIDATOR_ROLE']);
+
+      await request(app).get('/admin/audit-log').set('Authorization', authorization(cycleManager)).expect(200, []);
+      await request(app).get('/admin/audit-log').set('Authorization', authorization(admin)).expect(200, []);
+      await request(app).get('/admin/audit-log').set('Authorization', authorization('0x0000000000000000000000000000000000000001')).expect(403);
+    });
+  });
+});
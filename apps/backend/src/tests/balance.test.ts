@@ -0,0 +1,96 @@
+import 'reflect-metadata';
+import request from 'supertest';
+import { Container } from 'typedi';
+import { App } from '@/app';
+import { StatusRoute } from '@/routes/status.route';
+import { BalanceService } from '@/services/balance.service';
+import { ContractsService } from '@/services/contracts.service';
+
+// The contracts are not deployed when testing
+jest.mock('@/services/contracts.service', () => ({ ContractsService: class {} }));
+jest.mock('@config', () => ({ ...jest.requireActual('@config'), REWARD_AMOUNT: '1', BALANCE_CACHE_TTL: 30 }));
+
+describe('BalanceService', () => {
+  const b3tr = (amount: number) => BigInt(amount) * BigInt('1000000000000000000');
+
+  let contracts: { getCurrentCycle: jest.Mock; getRewardsLeft: jest.Mock; getAvailableFunds: jest.Mock };
+  let balances: BalanceService;
+
+  beforeEach(() => {
+    contracts = {
+      getCurrentCycle: jest.fn().mockResolvedValue(3),
+      getRewardsLeft: jest.fn().mockResolvedValue(b3tr(100)),
+      getAvailableFunds: jest.fn().mockResolvedValue(b3tr(1000)),
+    };
+
+    Container.reset();
+    Container.set(ContractsService, contracts);
+    balances = Container.get(BalanceService);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('accepts submissions while a reward can be paid', async () => {
+    await expect(balances.assertAcceptingSubmissions()).resolves.toBeUndefined();
+    expect(await balances.getStatus()).toMatchObject({ acceptingSubmissions: true, cycle: 3, rewardsLeft: '100.0', availableFunds: '1000.0' });
+  });
+
+  it('refuses submissions with a 503 when the cycle has not enough rewards left', async () => {
+    contracts.getRewardsLeft.mockResolvedValue(b3tr(1) - BigInt(1));
+
+    await expect(balances.assertAcceptingSubmissions()).rejects.toMatchObject({
+      status: 503,
+      message: 'EcoEarn: Not enough rewards left for this cycle, please try again in the next one',
+    });
+  });
+
+  it('refuses submissions with a 503 when the rewards pool is running out of funds', async () => {
+    contracts.getAvailableFunds.mockResolvedValue(BigInt(0));
+
+    await expect(balances.assertAcceptingSubmissions()).rejects.toMatchObject({
+      status: 503,
+      message: 'EcoEarn: The rewards pool is running out of funds, please try again later',
+    });
+  });
+
+  it('reads the balances again once they expired or were invalidated', async () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    await Promise.all([balances.getStatus(), balances.getStatus()]);
+    await balances.getStatus();
+    expect(contracts.getRewardsLeft).toHaveBeenCalledTimes(1);
+
+    clock.mockReturnValue(now + 31 * 1000);
+    await balances.getStatus();
+    expect(contracts.getRewardsLeft).toHaveBeenCalledTimes(2);
+
+    balances.invalidate();
+    contracts.getRewardsLeft.mockResolvedValue(BigInt(0));
+    expect(await balances.getStatus()).toMatchObject({ acceptingSubmissions: false, rewardsLeft: '0.0' });
+  });
+});
+
+describe('StatusRoute', () => {
+  beforeEach(() => {
+    Container.reset();
+    Container.set(ContractsService, {
+      getCurrentCycle: async () => 3,
+      getRewardsLeft: async () => BigInt(0),
+      getAvailableFunds: async () => BigInt(0),
+    });
+  });
+
+  describe('[GET] /status', () => {
+    it('tells why submissions are refused', async () => {
+      const response = await request(new App([new StatusRoute()]).getServer()).get('/status');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        acceptingSubmissions: false,
+        reason: 'EcoEarn: Not enough rewards left for this cycle, please try again in the next one',
+        cycle: 3,
+      });
+    });
+  });
+});
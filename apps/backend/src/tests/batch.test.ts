@@ -0,0 +1,134 @@
+import 'reflect-metadata';
+import { Container } from 'typedi';
+import { RewardsExhaustedException, TransactionExpiredException, TransactionRevertedException } from '@/exceptions/TransactionException';
+import { SubmissionProof } from '@/interfaces/proof.interface';
+import { Submission } from '@/interfaces/submission.interface';
+import { RewardBatchService } from '@/services/batch.service';
+import { ContractsService } from '@/services/contracts.service';
+import { TransactionService } from '@/services/transaction.service';
+import { Clause } from '@/utils/model';
+
+// The contracts are not deployed when testing, a clause carries the hash of its submission and the amount rewarded
+jest.mock('@/services/contracts.service', () => ({ ContractsService: class {} }));
+jest.mock('@/services/transaction.service', () => ({ TransactionService: class {} }));
+jest.mock('@config', () => ({ ...jest.requireActual('@config'), REWARD_BATCH_MAX_SIZE: 3, REWARD_BATCH_WINDOW: 0.01 }));
+
+describe('RewardBatchService', () => {
+  const proof = {} as SubmissionProof;
+  const submission = (imageHash: string): Submission => ({ address: '0x7567d83b7b8d80addcb281a71d54fc7b3364ffed', timestamp: 0, imageHash });
+
+  // Hashes of the submissions the contract refuses when simulating the clauses
+  let refused: Set<string>;
+  let batches: RewardBatchService;
+  let execute: jest.Mock;
+
+  // The receipt rewards every clause it includes with the amount it was given
+  const included = (clauses: Clause[]) => ({ txId: '0x01', receipt: { amounts: clauses.map(({ data }) => BigInt(data)) } });
+
+  beforeEach(() => {
+    refused = new Set();
+    execute = jest.fn(async (clauses: Clause[], onSent?: (txId: string) => Promise<unknown>) => {
+      await onSent?.('0x01');
+      return included(clauses);
+    });
+
+    Container.reset();
+    Container.set(ContractsService, {
+      buildSubmissionClause: (submission: Submission, amount: bigint) => ({
+        to: submission.imageHash,
+        value: '0x0',
+        data: `0x${amount.toString(16)}`,
+      }),
+      getSubmissionRewards: ({ amounts }: { amounts: bigint[] }) => amounts,
+    });
+    Container.set(TransactionService, {
+      execute,
+      findRevertedClause: jest.fn(async (clauses: Clause[]) => {
+        const index = clauses.findIndex(({ to }) => refused.has(to));
+        return index >= 0 ? { index, error: new RewardsExhaustedException('EcoEarn: Not enough rewards left') } : undefined;
+      }),
+    });
+    batches = Container.get(RewardBatchService);
+  });
+
+  it('sends the rewards added within the window as a single transaction', async () => {
+    const onSent = jest.fn();
+
+    const rewards = await Promise.all([batches.add(submission('0xa'), BigInt(1), proof, onSent), batches.add(submission('0xb'), BigInt(2), proof)]);
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(rewards).toEqual([
+      { txId: '0x01', amount: BigInt(1) },
+      { txId: '0x01', amount: BigInt(2) },
+    ]);
+    expect(onSent).toHaveBeenCalledWith('0x01');
+  });
+
+  it('sends a full batch without waiting for the window', async () => {
+    const rewards = ['0xa', '0xb', '0xc', '0xd'].map(hash => batches.add(submission(hash), BigInt(1), proof));
+
+    expect(execute).toHaveBeenCalledTimes(0);
+    await Promise.all(rewards.slice(0, 3));
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(execute.mock.calls[0][0]).toHaveLength(3);
+
+    await rewards[3];
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves out the rewards the contract would refuse', async () => {
+    refused.add('0xb');
+
+    const [first, second, third] = await Promise.allSettled(['0xa', '0xb', '0xc'].map(hash => batches.add(submission(hash), BigInt(1), proof)));
+
+    expect(first).toMatchObject({ status: 'fulfilled' });
+    expect(second).toMatchObject({ status: 'rejected', reason: expect.any(RewardsExhaustedException) });
+    expect(third).toMatchObject({ status: 'fulfilled' });
+    expect(execute.mock.calls[0][0].map(({ to }: Clause) => to)).toEqual(['0xa', '0xc']);
+  });
+
+  it('does not send a transaction when every reward is refused', async () => {
+    refused.add('0xa');
+
+    await expect(batches.add(submission('0xa'), BigInt(1), proof)).rejects.toBeInstanceOf(RewardsExhaustedException);
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('checks the batch again when its transaction reverted', async () => {
+    execute.mockImplementationOnce(async () => {
+      // The rewards ran out between the simulation and the inclusion of the transaction
+      refused.add('0xb');
+      throw new TransactionRevertedException('EcoEarn: Not enough rewards left');
+    });
+
+    const [first, second] = await Promise.allSettled(['0xa', '0xb'].map(hash => batches.add(submission(hash), BigInt(1), proof)));
+
+    expect(first).toMatchObject({ status: 'fulfilled' });
+    expect(second).toMatchObject({ status: 'rejected', reason: expect.any(RewardsExhaustedException) });
+    expect(execute).toHaveBeenCalledTimes(2);
+    expect(execute.mock.calls[1][0]).toHaveLength(1);
+  });
+
+  it('gives up on a batch reverted on every resend', async () => {
+    execute.mockRejectedValue(new TransactionRevertedException('EcoEarn: Cycle is over'));
+
+    await expect(batches.add(submission('0xa'), BigInt(1), proof)).rejects.toBeInstanceOf(TransactionRevertedException);
+    expect(execute).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not resend a batch that failed for another reason', async () => {
+    execute.mockRejectedValue(new TransactionExpiredException('0x01'));
+
+    await expect(batches.add(submission('0xa'), BigInt(1), proof)).rejects.toBeInstanceOf(TransactionExpiredException);
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails the rewards missing from the receipt', async () => {
+    execute.mockResolvedValueOnce({ txId: '0x01', receipt: { amounts: [BigInt(1)] } });
+
+    const [first, second] = await Promise.allSettled(['0xa', '0xb'].map(hash => batches.add(submission(hash), BigInt(1), proof)));
+
+    expect(first).toMatchObject({ status: 'fulfilled' });
+    expect(second).toMatchObject({ status: 'rejected', reason: expect.objectContaining({ status: 500 }) });
+  });
+});
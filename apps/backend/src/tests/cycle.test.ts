@@ -0,0 +1,109 @@
+import 'reflect-metadata';
+import request from 'supertest';
+import { Container } from 'typedi';
+import { App } from '@/app';
+import { ContractEvent } from '@/interfaces/event.interface';
+import { CONTRACT_EVENT_REPOSITORY, initializeRepositories } from '@/repositories';
+import { CycleRoute } from '@/routes/cycle.route';
+import { ContractsService } from '@/services/contracts.service';
+import { CycleService } from '@/services/cycle.service';
+
+// The contracts are not deployed when testing, the best block is half way through the current cycle
+jest.mock('@/services/contracts.service', () => ({ ContractsService: class {} }));
+jest.mock('@/utils/thor', () => ({
+  thor: {
+    blocks: {
+      getBestBlockCompressed: async () => ({ number: 250, timestamp: 1500 }),
+      getBlockCompressed: async () => ({ number: 200, timestamp: 1000 }),
+    },
+  },
+}));
+
+const b3tr = (amount: number) => (BigInt(amount) * BigInt('1000000000000000000')).toString();
+
+const event = (name: ContractEvent['name'], cycle: number, blockNumber: number, changes: Partial<ContractEvent> = {}): ContractEvent => ({
+  name,
+  cycle,
+  blockNumber,
+  blockID: `0x${blockNumber}`,
+  timestamp: blockNumber * 1000,
+  txId: `0x${blockNumber}`,
+  clauseIndex: 0,
+  ...changes,
+});
+
+beforeEach(async () => {
+  Container.reset();
+  initializeRepositories();
+  Container.set(ContractsService, {
+    getCurrentCycle: async () => 2,
+    getNextCycle: async () => 3,
+    getRewardsLeft: async (cycle: number) => BigInt(b3tr(cycle === 2 ? 40 : 0)),
+    getCurrentCycleStartBlock: async () => 200,
+    getNextCycleBlock: async () => 300,
+  });
+
+  await Container.get(CONTRACT_EVENT_REPOSITORY).replaceFrom(0, 260, [
+    event('ClaimedAllocation', 1, 90, { amount: b3tr(50) }),
+    event('ClaimedAllocation', 1, 95, { amount: b3tr(100) }),
+    event('CycleStarted', 1, 100, { startBlock: 100 }),
+    event('Submission', 1, 110, { participant: '0x01', amount: b3tr(1) }),
+    event('Submission', 1, 120, { participant: '0x02', amount: b3tr(2) }),
+    event('ClaimedAllocation', 2, 190, { amount: b3tr(60) }),
+    event('CycleStarted', 2, 200, { startBlock: 200 }),
+    event('Submission', 2, 210, { participant: '0x01', amount: b3tr(20) }),
+  ]);
+});
+
+describe('CycleService', () => {
+  it('sums up a past cycle from the indexed events', async () => {
+    expect(await Container.get(CycleService).getCycleStats(1)).toEqual({
+      cycle: 1,
+      isCurrent: false,
+      rewards: '100.0',
+      rewardsLeft: '0.0',
+      rewardsDistributed: '3.0',
+      totalSubmissions: 2,
+      startBlock: 100,
+      endBlock: 200,
+    });
+  });
+
+  it('estimates the end of the current cycle from the block time since it started', async () => {
+    expect(await Container.get(CycleService).getCurrentCycleStats()).toEqual({
+      cycle: 2,
+      isCurrent: true,
+      rewards: '60.0',
+      rewardsLeft: '40.0',
+      rewardsDistributed: '20.0',
+      totalSubmissions: 1,
+      startBlock: 200,
+      endBlock: 300,
+      // 50 blocks left of 10 seconds each
+      estimatedEndTime: 2000 * 1000,
+    });
+  });
+
+  it('knows nothing of the blocks of the next cycle yet', async () => {
+    expect(await Container.get(CycleService).getCycleStats(3)).toMatchObject({
+      cycle: 3,
+      totalSubmissions: 0,
+      startBlock: undefined,
+      endBlock: undefined,
+    });
+  });
+
+  it('does not know the cycles after the next one', async () => {
+    await expect(Container.get(CycleService).getCycleStats(4)).rejects.toMatchObject({ status: 404 });
+  });
+});
+
+describe('CycleRoute', () => {
+  it('serves the current cycle and refuses invalid cycles', async () => {
+    const app = new App([new CycleRoute()]).getServer();
+
+    await request(app).get('/cycles/current').expect(200);
+    await request(app).get('/cycles/1').expect(200);
+    await request(app).get('/cycles/first').expect(400);
+  });
+});
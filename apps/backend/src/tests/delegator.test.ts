@@ -0,0 +1,136 @@
+import 'reflect-metadata';
+import { Application } from 'express';
+import request from 'supertest';
+import { Container } from 'typedi';
+import { Secp256k1, Transaction, TransactionBody, TransactionHandler, addressUtils } from '@vechain/sdk-core';
+import { SignTransactionOptions, THOR_SOLO_ACCOUNTS, ThorClient } from '@vechain/sdk-network';
+import { App } from '@/app';
+import { DelegatorRoute } from '@/routes/delegator.route';
+import { PrivateKeySignerProvider } from '@/services/helpers/signer/env';
+import { TransactionSigner } from '@/services/helpers/signer/transaction';
+import { Clause } from '@/utils/model';
+import { createWallet } from './helpers';
+
+jest.mock('@/utils/thor', () => ({ ecoEarnContract: { address: '0x1111111111111111111111111111111111111111' } }));
+
+describe('Fee delegation', () => {
+  const admin = createWallet(1);
+  const payer = createWallet(2);
+  const soloPayer = THOR_SOLO_ACCOUNTS[THOR_SOLO_ACCOUNTS.length - 1].address.toLowerCase();
+
+  const ecoEarnClauses: Clause[] = [{ to: '0x1111111111111111111111111111111111111111', value: '0x0', data: '0x' }];
+  const otherClauses: Clause[] = [{ to: '0x2222222222222222222222222222222222222222', value: '0x0', data: '0x' }];
+
+  const body = (clauses: Clause[], isDelegated: boolean): TransactionBody => ({
+    chainTag: 0xf6,
+    blockRef: '0x0000000000000000',
+    expiration: 32,
+    clauses,
+    gasPriceCoef: 0,
+    gas: 100000,
+    dependsOn: null,
+    nonce: 1,
+    reserved: isDelegated ? { features: 1 } : undefined,
+  });
+
+  let app: Application;
+
+  // The node builds the transaction bodies, the delegation requests are served by the stand-in delegator
+  const thor = {
+    transactions: {
+      buildTransactionBody: async (clauses: Clause[], gas: number, { isDelegated }: { isDelegated: boolean }) => ({
+        ...body(clauses, isDelegated),
+        gas,
+      }),
+    },
+    httpClient: {
+      http: async (method: string, url: string, { body }: { body: object }) => {
+        const res = await request(app).post(new URL(url).pathname).send(body);
+        if (res.status !== 200) throw new Error(res.body.message);
+        return res.body;
+      },
+    },
+  } as unknown as ThorClient;
+
+  const sign = async (clauses: Clause[], delegator?: SignTransactionOptions) => {
+    const signer = new TransactionSigner(thor, new PrivateKeySignerProvider(admin.privateKey), delegator);
+    const raw = await signer.signTransaction({ clauses, gas: 50000, expiration: 32 });
+    return TransactionHandler.decode(Buffer.from(raw.slice(2), 'hex'), true);
+  };
+
+  beforeEach(() => {
+    Container.reset();
+    app = new App([new DelegatorRoute()]).getServer();
+  });
+
+  describe('TransactionSigner', () => {
+    it('pays the gas with the admin account when there is no delegator', async () => {
+      const transaction = await sign(ecoEarnClauses);
+
+      expect(transaction.isDelegated).toBe(false);
+      expect(transaction.origin.toLowerCase()).toBe(admin.address);
+    });
+
+    it('has the gas paid by the account of a local key', async () => {
+      const transaction = await sign(ecoEarnClauses, { delegatorPrivateKey: payer.privateKey.toString('hex') });
+
+      expect(transaction.isDelegated).toBe(true);
+      expect(transaction.origin.toLowerCase()).toBe(admin.address);
+      expect(transaction.delegator.toLowerCase()).toBe(payer.address);
+    });
+
+    it('has the gas paid by a delegation service', async () => {
+      const transaction = await sign(ecoEarnClauses, { delegatorUrl: 'http://localhost/delegator/sign' });
+
+      expect(transaction.origin.toLowerCase()).toBe(admin.address);
+      expect(transaction.delegator.toLowerCase()).toBe(soloPayer);
+    });
+
+    it('fails when the delegation service refuses to pay', async () => {
+      await expect(sign(otherClauses, { delegatorUrl: 'http://localhost/delegator/sign' })).rejects.toThrow('Delegation failed');
+    });
+  });
+
+  describe('POST /delegator/sign', () => {
+    const raw = (clauses: Clause[], isDelegated = true) => `0x${new Transaction(body(clauses, isDelegated)).encoded.toString('hex')}`;
+
+    it('signs as the gas payer of the transactions calling the EcoEarn contract', async () => {
+      const transaction = new Transaction(body(ecoEarnClauses, true));
+
+      const res = await request(app)
+        .post('/delegator/sign')
+        .send({ origin: admin.address, raw: raw(ecoEarnClauses) });
+
+      expect(res.status).toBe(200);
+      const publicKey = Secp256k1.recover(transaction.getSignatureHash(admin.address), Buffer.from(res.body.signature.slice(2), 'hex'));
+      expect(addressUtils.fromPublicKey(publicKey).toLowerCase()).toBe(soloPayer);
+    });
+
+    it('rejects the transactions calling another contract', async () => {
+      const res = await request(app)
+        .post('/delegator/sign')
+        .send({ origin: admin.address, raw: raw(otherClauses) });
+
+      expect(res.status).toBe(403);
+    });
+
+    it('rejects the transactions that are not delegated', async () => {
+      const res = await request(app)
+        .post('/delegator/sign')
+        .send({ origin: admin.address, raw: raw(ecoEarnClauses, false) });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('rejects what is not a transaction', async () => {
+      expect((await request(app).post('/delegator/sign').send({ origin: admin.address, raw: '0xabcd' })).status).toBe(400);
+      expect(
+        (
+          await request(app)
+            .post('/delegator/sign')
+            .send({ origin: 'admin', raw: raw(ecoEarnClauses) })
+        ).status,
+      ).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import 'reflect-metadata';
+import { Container } from 'typedi';
+import { Submission } from '@/interfaces/submission.interface';
+import { initializeRepositories, SUBMISSION_REPOSITORY } from '@/repositories';
+import { DeviceService } from '@/services/device.service';
+import { MAX_SUBMISSIONS_PER_DEVICE_PER_CYCLE } from '@config';
+
+describe('DeviceService', () => {
+  const submission: Submission = { address: '0x7567d83b7b8d80addcb281a71d54fc7b3364ffed', deviceID: 'device', round: 1, timestamp: 0 };
+
+  beforeEach(() => {
+    Container.reset();
+    initializeRepositories();
+  });
+
+  const submit = async (count: number) => {
+    const submissions = Container.get(SUBMISSION_REPOSITORY);
+    const created = await Promise.all(Array.from({ length: count }, () => submissions.create({ ...submission, status: 'queued' })));
+    return Promise.allSettled(created.map(submission => Container.get(DeviceService).validateDevice(submission)));
+  };
+
+  it('counts the submissions still being processed towards the cycle limit', async () => {
+    const results = await submit(MAX_SUBMISSIONS_PER_DEVICE_PER_CYCLE + 2);
+
+    expect(results.slice(0, MAX_SUBMISSIONS_PER_DEVICE_PER_CYCLE).every(result => result.status === 'fulfilled')).toBe(true);
+    expect(results.slice(MAX_SUBMISSIONS_PER_DEVICE_PER_CYCLE)).toEqual([
+      { status: 'rejected', reason: expect.objectContaining({ status: 409 }) },
+      { status: 'rejected', reason: expect.objectContaining({ status: 409 }) },
+    ]);
+  });
+
+  it('does not count the rejected and failed submissions', async () => {
+    const submissions = Container.get(SUBMISSION_REPOSITORY);
+    await submissions.create({ ...submission, status: 'rejected' });
+    await submissions.create({ ...submission, status: 'failed' });
+
+    const results = await submit(MAX_SUBMISSIONS_PER_DEVICE_PER_CYCLE);
+
+    expect(results.every(result => result.status === 'fulfilled')).toBe(true);
+  });
+});
@@ -0,0 +1,52 @@
+import sharp from 'sharp';
+import { Certificate, addressUtils, certificate } from '@vechain/sdk-core';
+
+export interface TestWallet {
+  address: string;
+  privateKey: Buffer;
+}
+
+/**
+ * Wallet whose private key is derived from a number, only meant to sign in tests
+ */
+export const createWallet = (seed: number): TestWallet => {
+  const privateKey = Buffer.alloc(32, seed);
+  return { address: addressUtils.fromPrivateKey(privateKey).toLowerCase(), privateKey };
+};
+
+/**
+ * Certificate signed by the wallet over the text, as VeWorld would sign it
+ */
+export const signCertificate = (wallet: TestWallet, content: string, fields: Partial<Certificate> = {}): Certificate =>
+  certificate.sign(
+    {
+      purpose: 'identification',
+      payload: { type: 'text', content },
+      domain: 'localhost',
+      timestamp: Math.floor(Date.now() / 1000),
+      signer: wallet.address,
+      ...fields,
+    },
+    wallet.privateKey,
+  );
+
+/**
+ * Base64 image made of blocks of pseudo random shades, images of different seeds having far apart perceptual hashes
+ */
+export const createImage = async (seed: number, format: 'png' | 'jpeg' = 'png'): Promise<string> => {
+  const width = 90;
+  const height = 80;
+
+  let state = seed;
+  const shades = Array.from({ length: 9 * 8 }, () => (state = (state * 16807) % 2147483647) % 256);
+
+  const pixels = Buffer.alloc(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) pixels[y * width + x] = shades[Math.floor(y / 10) * 9 + Math.floor(x / 10)];
+  }
+
+  const data = await sharp(pixels, { raw: { width, height, channels: 1 } })
+    .toFormat(format)
+    .toBuffer();
+  return `data:image/${format};base64,${data.toString('base64')}`;
+};
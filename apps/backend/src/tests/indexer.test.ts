@@ -0,0 +1,140 @@
+import 'reflect-metadata';
+import { Container } from 'typedi';
+import { CONTRACT_EVENT_REPOSITORY, initializeRepositories } from '@/repositories';
+import { ContractsService } from '@/services/contracts.service';
+import { EventIndexerService } from '@/services/indexer.service';
+import { thor } from '@/utils/thor';
+
+interface Log {
+  blockNumber: number;
+  blockID: string;
+  event: 'Submission' | 'CycleStarted' | 'ClaimedAllocation';
+  data: unknown[];
+}
+
+// The logs are read from a simulated chain, whose blocks the tests replace to reorganise it
+jest.mock('@/services/contracts.service', () => ({ ContractsService: class {} }));
+jest.mock('@/utils/thor', () => ({
+  ecoEarnContract: { criteria: new Proxy({}, { get: (_, name) => () => ({ criteria: { topic0: name } }) }) },
+  thor: { blocks: { getBestBlockCompressed: jest.fn() }, logs: { filterEventLogs: jest.fn() } },
+}));
+jest.mock('@config', () => ({ ...jest.requireActual('@config'), INDEXER_START_BLOCK: 0, INDEXER_CONFIRMATIONS: 3, INDEXER_BATCH_SIZE: 10 }));
+
+describe('EventIndexerService', () => {
+  const participant = '0x7567D83B7B8D80ADDCB281A71D54FC7B3364FFED';
+
+  let chain: { best: number; logs: Log[] };
+  let indexer: EventIndexerService;
+
+  const log = (blockNumber: number, event: Log['event'], data: unknown[], branch = 'a'): Log => ({
+    blockNumber,
+    blockID: `0x${branch}${blockNumber}`,
+    event,
+    data,
+  });
+
+  beforeEach(() => {
+    chain = { best: 25, logs: [] };
+    (thor.blocks.getBestBlockCompressed as jest.Mock).mockImplementation(async () => ({ number: chain.best }));
+    (thor.logs.filterEventLogs as jest.Mock).mockImplementation(async ({ range: { from, to }, options: { offset, limit } }) =>
+      chain.logs
+        .filter(log => log.blockNumber >= from && log.blockNumber <= to)
+        .slice(offset, offset + limit)
+        .map(log => ({
+          topics: [log.event],
+          decodedData: log.data,
+          meta: {
+            blockNumber: log.blockNumber,
+            blockID: log.blockID,
+            blockTimestamp: log.blockNumber * 10,
+            txID: `0xtx${log.blockID}`,
+            clauseIndex: 0,
+          },
+        })),
+    );
+
+    Container.reset();
+    initializeRepositories();
+    // Cycles are numbered after the block they started at in these tests
+    Container.set(ContractsService, { getCycleAt: async (blockID: string) => Number(blockID.slice(3)) });
+    indexer = Container.get(EventIndexerService);
+  });
+
+  const indexed = async () =>
+    (await Container.get(CONTRACT_EVENT_REPOSITORY).find({})).reverse().map(({ name, cycle, blockID }) => [name, cycle, blockID]);
+
+  it('backfills the events in batches, giving the submissions the cycle they were rewarded in', async () => {
+    chain.logs = [
+      log(2, 'ClaimedAllocation', [BigInt(3), BigInt(100)]),
+      log(3, 'CycleStarted', [BigInt(3)]),
+      log(12, 'Submission', [participant, BigInt(5)]),
+      log(18, 'CycleStarted', [BigInt(18)]),
+      log(25, 'Submission', [participant, BigInt(7)]),
+    ];
+
+    await indexer['tick']();
+
+    expect(await indexed()).toEqual([
+      ['ClaimedAllocation', 3, '0xa2'],
+      ['CycleStarted', 3, '0xa3'],
+      ['Submission', 3, '0xa12'],
+      ['CycleStarted', 18, '0xa18'],
+      ['Submission', 18, '0xa25'],
+    ]);
+    expect((await Container.get(CONTRACT_EVENT_REPOSITORY).find({ name: 'Submission', limit: 1 }))[0]).toMatchObject({
+      participant: participant.toLowerCase(),
+      amount: '7',
+      timestamp: 250 * 1000,
+    });
+    expect(thor.logs.filterEventLogs).toHaveBeenCalledTimes(3);
+    expect(await Container.get(CONTRACT_EVENT_REPOSITORY).getLastIndexedBlock()).toBe(25);
+  });
+
+  it('indexes the latest blocks again, replacing the events of a reorganised branch', async () => {
+    chain.logs = [
+      log(3, 'CycleStarted', [BigInt(3)]),
+      log(20, 'Submission', [participant, BigInt(1)]),
+      log(24, 'Submission', [participant, BigInt(2)]),
+    ];
+    await indexer['tick']();
+
+    chain = {
+      best: 27,
+      logs: [
+        ...chain.logs.filter(log => log.blockNumber < 23),
+        log(23, 'Submission', [participant, BigInt(3)], 'b'),
+        log(26, 'CycleStarted', [BigInt(26)], 'b'),
+      ],
+    };
+    await indexer['tick']();
+
+    expect(await indexed()).toEqual([
+      ['CycleStarted', 3, '0xa3'],
+      ['Submission', 3, '0xa20'],
+      ['Submission', 3, '0xb23'],
+      ['CycleStarted', 26, '0xb26'],
+    ]);
+  });
+
+  it('keeps what was indexed when the node fails, and resumes on the next tick', async () => {
+    chain.logs = [log(3, 'CycleStarted', [BigInt(3)]), log(15, 'Submission', [participant, BigInt(1)])];
+    (thor.logs.filterEventLogs as jest.Mock).mockRejectedValueOnce(new Error('socket hang up'));
+
+    await indexer['tick']();
+    expect(await Container.get(CONTRACT_EVENT_REPOSITORY).getLastIndexedBlock()).toBeUndefined();
+
+    await indexer['tick']();
+    expect(await indexed()).toEqual([
+      ['CycleStarted', 3, '0xa3'],
+      ['Submission', 3, '0xa15'],
+    ]);
+  });
+
+  it('reads every page of logs of a batch', async () => {
+    chain.logs = Array.from({ length: 300 }, (_, index) => log(5, 'Submission', [participant, BigInt(index)]));
+
+    await indexer['tick']();
+
+    expect(await Container.get(CONTRACT_EVENT_REPOSITORY).count({ name: 'Submission' })).toBe(300);
+  });
+});
@@ -0,0 +1,95 @@
+import 'reflect-metadata';
+import { Container } from 'typedi';
+import { ContractEvent, ContractEventRepository } from '@/interfaces/event.interface';
+import { UserSettingsRepository } from '@/interfaces/settings.interface';
+import { CONTRACT_EVENT_REPOSITORY, USER_SETTINGS_REPOSITORY } from '@/repositories';
+import { InMemoryContractEventRepository } from '@/repositories/memory/event.repository';
+import { InMemoryUserSettingsRepository } from '@/repositories/memory/settings.repository';
+import { openDatabase } from '@/repositories/sqlite/database';
+import { SqliteContractEventRepository } from '@/repositories/sqlite/event.repository';
+import { SqliteUserSettingsRepository } from '@/repositories/sqlite/settings.repository';
+import { LeaderboardService } from '@/services/leaderboard.service';
+
+const drivers: [string, () => [ContractEventRepository, UserSettingsRepository]][] = [
+  ['memory', () => [new InMemoryContractEventRepository(), new InMemoryUserSettingsRepository()]],
+  [
+    'sqlite',
+    () => {
+      const db = openDatabase(':memory:');
+      return [new SqliteContractEventRepository(db), new SqliteUserSettingsRepository(db)];
+    },
+  ],
+];
+
+describe.each(drivers)('LeaderboardService (%s)', (_, createRepositories) => {
+  const [alice, bob, carol] = [
+    '0x00000000000000000000000000000000000000a1',
+    '0x00000000000000000000000000000000000000b2',
+    '0x00000000000000000000000000000000000000c3',
+  ];
+  // 10 B3TR, more wei than a 64 bits integer holds once added up
+  const tenB3TR = '10000000000000000000';
+
+  let settings: UserSettingsRepository;
+  let leaderboard: LeaderboardService;
+
+  const submission = (participant: string, cycle: number, amount = tenB3TR): ContractEvent => ({
+    name: 'Submission',
+    cycle,
+    participant,
+    amount,
+    blockNumber: cycle,
+    blockID: `0x${cycle}`,
+    timestamp: 0,
+    txId: '0x01',
+    clauseIndex: 0,
+  });
+
+  beforeEach(async () => {
+    const [events, userSettings] = createRepositories();
+    settings = userSettings;
+
+    Container.reset();
+    Container.set(CONTRACT_EVENT_REPOSITORY, events);
+    Container.set(USER_SETTINGS_REPOSITORY, settings);
+    leaderboard = Container.get(LeaderboardService);
+
+    await events.replaceFrom(0, 2, [
+      submission(alice, 1),
+      submission(alice, 1),
+      submission(bob, 1, '1'),
+      submission(bob, 2),
+      submission(bob, 2),
+      submission(carol, 2),
+      submission(carol, 2),
+      submission(carol, 2),
+      { ...submission(alice, 2), name: 'ClaimedAllocation', participant: undefined },
+    ]);
+  });
+
+  it('ranks the participants by rewarded submissions, then by B3TR earned', async () => {
+    const { entries } = await leaderboard.getLeaderboard(undefined, 10);
+
+    expect(entries).toEqual([
+      { rank: 1, address: carol, submissions: 3, earned: '30.0' },
+      { rank: 2, address: bob, submissions: 3, earned: '20.000000000000000001' },
+      { rank: 3, address: alice, submissions: 2, earned: '20.0' },
+    ]);
+  });
+
+  it('ranks the participants of a cycle, up to the limit', async () => {
+    expect(await leaderboard.getLeaderboard(1, 1)).toEqual({ cycle: 1, entries: [{ rank: 1, address: alice, submissions: 2, earned: '20.0' }] });
+  });
+
+  it('hides the participants who opted out', async () => {
+    await settings.save({ address: carol.toUpperCase().replace('0X', '0x'), hiddenFromLeaderboard: true });
+    await settings.save({ address: alice, hiddenFromLeaderboard: false });
+
+    const { entries } = await leaderboard.getLeaderboard(undefined, 10);
+
+    expect(entries.map(entry => [entry.rank, entry.address])).toEqual([
+      [1, bob],
+      [2, alice],
+    ]);
+  });
+});
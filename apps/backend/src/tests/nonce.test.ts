@@ -0,0 +1,62 @@
+import 'reflect-metadata';
+import { NonceService } from '@/services/nonce.service';
+
+jest.mock('@config', () => ({ ...jest.requireActual('@config'), NONCE_TTL: 60, NONCE_MAX_PER_ADDRESS: 2, NONCE_MAX_OUTSTANDING: 3 }));
+
+describe('NonceService', () => {
+  const address = '0x7567d83b7b8d80addcb281a71d54fc7b3364ffed';
+  const other = '0x435933c8064b4ae76be665428e0307ef2ccfbd68';
+
+  const wait = (seconds: number) => {
+    const now = Date.now() + seconds * 1000;
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+  };
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('accepts a nonce once, from the address it was issued to', () => {
+    const nonces = new NonceService();
+    const { nonce } = nonces.issue(address);
+
+    expect(() => nonces.consume(other, nonce)).toThrow(expect.objectContaining({ status: 401 }));
+
+    const { nonce: replayed } = nonces.issue(address);
+    nonces.consume(address.toUpperCase().replace('0X', '0x'), replayed);
+    expect(() => nonces.consume(address, replayed)).toThrow(expect.objectContaining({ status: 401 }));
+  });
+
+  it('rejects an expired nonce', () => {
+    const nonces = new NonceService();
+    const { nonce } = nonces.issue(address);
+
+    wait(61);
+
+    expect(() => nonces.consume(address, nonce)).toThrow(expect.objectContaining({ status: 401 }));
+  });
+
+  it('drops the oldest nonce of an address above its cap', () => {
+    const nonces = new NonceService();
+    const [first, second, third] = [nonces.issue(address), nonces.issue(address), nonces.issue(address)];
+
+    expect(() => nonces.consume(address, first.nonce)).toThrow(expect.objectContaining({ status: 401 }));
+    expect(() => nonces.consume(address, second.nonce)).not.toThrow();
+    expect(() => nonces.consume(address, third.nonce)).not.toThrow();
+  });
+
+  it('refuses to issue nonces above the overall cap until some are used or expire', () => {
+    const nonces = new NonceService();
+    const third = '0x0000000000000000000000000000000000000001';
+    nonces.issue(address);
+    const { nonce } = nonces.issue(address);
+    nonces.issue(other);
+
+    expect(() => nonces.issue(third)).toThrow(expect.objectContaining({ status: 429 }));
+    expect(() => nonces.issue(address)).not.toThrow();
+
+    nonces.consume(address, nonce);
+    expect(() => nonces.issue(third)).not.toThrow();
+
+    wait(61);
+    expect(() => [third, other, address].forEach(owner => nonces.issue(owner))).not.toThrow();
+  });
+});
@@ -0,0 +1,86 @@
+import 'reflect-metadata';
+import { Container } from 'typedi';
+import { visionProvider } from '@/server';
+import { OpenaiService } from '@/services/openai.service';
+
+// The server is not started, its vision provider answers what each test wants
+jest.mock('@/server', () => ({ visionProvider: { name: 'test', analyzeImage: jest.fn() } }));
+jest.mock('@config', () => ({ ...jest.requireActual('@config'), VISION_MAX_RETRIES: 2 }));
+
+describe('OpenaiService', () => {
+  const image = 'data:image/png;base64,iVBORw0KGgo=';
+  const verdict = { validityFactor: 1, descriptionOfAnalysis: 'A receipt of an organic coffee' };
+
+  const analyzeImage = visionProvider.analyzeImage as jest.Mock;
+
+  beforeEach(() => {
+    analyzeImage.mockReset();
+  });
+
+  it('returns the verdict of the model', async () => {
+    analyzeImage.mockResolvedValue(`\`\`\`json\n${JSON.stringify(verdict)}\n\`\`\``);
+
+    expect(await Container.get(OpenaiService).validateImage(image)).toEqual(verdict);
+    expect(analyzeImage).toHaveBeenCalledTimes(1);
+  });
+
+  it('asks the model again, with what was wrong, until it answers a valid verdict', async () => {
+    analyzeImage
+      .mockResolvedValueOnce('I can not read this receipt')
+      .mockResolvedValueOnce(JSON.stringify({ ...verdict, validityFactor: 2 }))
+      .mockResolvedValueOnce(JSON.stringify(verdict));
+
+    expect(await Container.get(OpenaiService).validateImage(image)).toEqual(verdict);
+
+    const prompts = analyzeImage.mock.calls.map(([request]) => request.prompt);
+    expect(prompts[1]).toContain('Your previous answer was not valid: the answer is not a JSON object');
+    expect(prompts[1]).toContain('Previous answer: I can not read this receipt');
+    expect(prompts[2]).toContain('validityFactor must not be greater than 1');
+  });
+
+  it('fails with a 502 when the model never answers a valid verdict', async () => {
+    analyzeImage.mockResolvedValue(JSON.stringify({ validityFactor: 'high' }));
+
+    await expect(Container.get(OpenaiService).validateImage(image)).rejects.toMatchObject({ status: 502 });
+    expect(analyzeImage).toHaveBeenCalledTimes(3);
+  });
+
+  describe('receipt data', () => {
+    const receipt = {
+      ...verdict,
+      storeName: 'Green Beans',
+      purchaseDate: '2026-10-18',
+      currency: 'EUR',
+      total: 7.5,
+      lineItems: [
+        { name: 'Organic coffee', quantity: 2, price: 6 },
+        { name: 'Oat milk', quantity: 1, price: 1.5 },
+      ],
+    };
+
+    it('returns the store, date, total and line items read on the receipt, and nothing else', async () => {
+      analyzeImage.mockResolvedValue(JSON.stringify({ ...receipt, loyaltyCard: '1234' }));
+
+      expect(await Container.get(OpenaiService).validateImage(image)).toEqual(receipt);
+    });
+
+    it('asks the model again when the data it read is malformed', async () => {
+      analyzeImage
+        .mockResolvedValueOnce(
+          JSON.stringify({ ...receipt, purchaseDate: '18/10/2026', lineItems: [{ name: 'Organic coffee', quantity: 'two', price: 6 }] }),
+        )
+        .mockResolvedValueOnce(JSON.stringify(receipt));
+
+      expect(await Container.get(OpenaiService).validateImage(image)).toEqual(receipt);
+
+      const [, [{ prompt }]] = analyzeImage.mock.calls;
+      expect(prompt).toContain('purchaseDate must be a valid ISO 8601 date string');
+      expect(prompt).toContain('lineItems.0.quantity must be a number');
+    });
+  });
+
+  it('does not send what is not an image to the model', async () => {
+    await expect(Container.get(OpenaiService).validateImage('hello')).rejects.toMatchObject({ status: 400 });
+    expect(analyzeImage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,111 @@
+import 'reflect-metadata';
+import { Container } from 'typedi';
+import { HttpException } from '@/exceptions/HttpException';
+import { SubmissionStatus } from '@/interfaces/submission.interface';
+import { initializeRepositories } from '@/repositories';
+import { BalanceService } from '@/services/balance.service';
+import { RewardBatchService } from '@/services/batch.service';
+import { OpenaiService } from '@/services/openai.service';
+import { QueueService } from '@/services/queue.service';
+import { RewardService } from '@/services/reward.service';
+import { RulesService } from '@/services/rules.service';
+import { FINAL_STATUSES, SubmissionService } from '@/services/submission.service';
+
+// The receipts are not analysed and the rewards are not sent when testing
+jest.mock('@/services/openai.service', () => ({ OpenaiService: class {} }));
+jest.mock('@/services/rules.service', () => ({ RulesService: class {} }));
+jest.mock('@/services/reward.service', () => ({ RewardService: class {} }));
+jest.mock('@/services/balance.service', () => ({ BalanceService: class {} }));
+jest.mock('@/services/batch.service', () => ({ RewardBatchService: class {} }));
+jest.mock('@config', () => ({ ...jest.requireActual('@config'), SUBMISSION_QUEUE_CONCURRENCY: 1 }));
+
+describe('QueueService', () => {
+  const submission = { address: '0x7567d83b7b8d80addcb281a71d54fc7b3364ffed', deviceID: 'device', timestamp: 0 };
+  const verdict = { validityFactor: 1, descriptionOfAnalysis: 'A receipt' };
+
+  let validateImage: jest.Mock;
+  let evaluate: jest.Mock;
+  let add: jest.Mock;
+  let submissions: SubmissionService;
+
+  beforeEach(() => {
+    validateImage = jest.fn().mockResolvedValue(verdict);
+    evaluate = jest.fn().mockResolvedValue([{ rule: 'storeNotBlocklisted', passed: true, reason: 'The store is accepted' }]);
+    add = jest.fn(async (_submission, amount, _proof, onSent) => {
+      await onSent('0x01');
+      return { txId: '0x01', amount };
+    });
+
+    Container.reset();
+    initializeRepositories();
+    Container.set(OpenaiService, { validateImage });
+    Container.set(RulesService, { evaluate });
+    Container.set(RewardService, { computeReward: async () => ({ amount: BigInt('1000000000000000000') }), buildProof: () => ({}) });
+    Container.set(BalanceService, { invalidate: jest.fn() });
+    Container.set(RewardBatchService, { add });
+    submissions = Container.get(SubmissionService);
+  });
+
+  /**
+   * Queues a submission and resolves with the statuses it went through, once it reached a final one
+   */
+  const process = async () => {
+    const created = await submissions.createSubmission(submission);
+    const statuses: SubmissionStatus[] = [];
+    const done = new Promise<SubmissionStatus[]>(resolve =>
+      submissions.subscribe(created._id, job => {
+        if (job.status !== statuses[statuses.length - 1]) statuses.push(job.status);
+        if (FINAL_STATUSES.includes(job.status)) resolve(statuses);
+      }),
+    );
+
+    Container.get(QueueService).enqueue(created, 'data:image/png;base64,');
+    return { id: created._id, done };
+  };
+
+  it('validates then rewards a submission', async () => {
+    const { id, done } = await process();
+
+    expect(await done).toEqual(['validating', 'rewarding', 'rewarded']);
+    expect(await submissions.getSubmission(id)).toMatchObject({ status: 'rewarded', txId: '0x01', reward: '1000000000000000000', verdict });
+  });
+
+  it('rejects a receipt the model finds unlikely to be valid', async () => {
+    validateImage.mockResolvedValue({ ...verdict, validityFactor: 0.4 });
+    const { done } = await process();
+
+    expect(await done).toEqual(['validating', 'rejected']);
+    expect(add).not.toHaveBeenCalled();
+  });
+
+  it('rejects a submission breaking a rule, with its reason', async () => {
+    evaluate.mockResolvedValue([{ rule: 'purchaseDateWithinDays', passed: false, reason: 'The purchase was made more than 7 days ago' }]);
+    const { id, done } = await process();
+
+    expect(await done).toEqual(['validating', 'rejected']);
+    expect(await submissions.getSubmission(id)).toMatchObject({ reason: 'The purchase was made more than 7 days ago' });
+  });
+
+  it('fails a submission which could not be analysed', async () => {
+    validateImage.mockRejectedValue(new HttpException(502, 'The AI could not analyse your receipt, please try again later'));
+    const { id, done } = await process();
+
+    expect(await done).toEqual(['validating', 'failed']);
+    expect(await submissions.getSubmission(id)).toMatchObject({ reason: 'The AI could not analyse your receipt, please try again later' });
+  });
+
+  it('analyses one submission at a time', async () => {
+    let analyse: () => void;
+    validateImage.mockImplementationOnce(() => new Promise(resolve => (analyse = () => resolve(verdict))));
+
+    const first = await process();
+    const second = await process();
+
+    expect((await submissions.getSubmission(first.id)).status).toBe('validating');
+    expect((await submissions.getSubmission(second.id)).status).toBe('queued');
+
+    analyse();
+    await Promise.all([first.done, second.done]);
+    expect(validateImage).toHaveBeenCalledTimes(2);
+  });
+});
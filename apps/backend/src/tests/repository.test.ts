@@ -0,0 +1,99 @@
+import 'reflect-metadata';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SubmissionRepository } from '@/interfaces/submission.interface';
+import { InMemorySubmissionRepository } from '@/repositories/memory/submission.repository';
+import { openDatabase } from '@/repositories/sqlite/database';
+import { SqliteSubmissionRepository } from '@/repositories/sqlite/submission.repository';
+
+const drivers: [string, () => SubmissionRepository][] = [
+  ['memory', () => new InMemorySubmissionRepository()],
+  ['sqlite', () => new SqliteSubmissionRepository(openDatabase(':memory:'))],
+];
+
+describe.each(drivers)('SubmissionRepository (%s)', (_, createRepository) => {
+  const submission = { address: '0x7567D83B7B8D80ADDCB281A71D54FC7B3364FFED', deviceID: 'device', round: 1, timestamp: 1 };
+
+  let submissions: SubmissionRepository;
+
+  beforeEach(() => {
+    submissions = createRepository();
+  });
+
+  it('stores a submission and its verdict, but not its image', async () => {
+    const verdict = { validityFactor: 0.9, descriptionOfAnalysis: 'A receipt' };
+    const rules = [{ rule: 'receiptAge', passed: true, reason: 'Bought 2 days ago' }];
+
+    const { _id } = await submissions.create({ ...submission, image: 'data:image/png;base64,', status: 'queued' });
+    await submissions.update(_id, { status: 'rewarded', verdict, rules, reward: '1000000000000000000' });
+
+    expect(await submissions.findById(_id)).toEqual({
+      ...submission,
+      _id,
+      status: 'rewarded',
+      verdict,
+      rules,
+      reward: '1000000000000000000',
+    });
+    expect(await submissions.update('unknown', { status: 'failed' })).toBeUndefined();
+  });
+
+  it('finds the submissions of an address, most recent first, whatever the case of the address', async () => {
+    await submissions.create({ ...submission, timestamp: 1, status: 'rejected' });
+    await submissions.create({ ...submission, timestamp: 2, status: 'queued' });
+    await submissions.create({ ...submission, address: '0x435933c8064b4ae76be665428e0307ef2ccfbd68', status: 'queued' });
+
+    const found = await submissions.findByAddress(submission.address.toLowerCase());
+
+    expect(found.map(submission => submission.timestamp)).toEqual([2, 1]);
+  });
+
+  it('counts the active submissions of a device stored before another one', async () => {
+    await submissions.create({ ...submission, status: 'rewarded' });
+    await submissions.create({ ...submission, status: 'failed' });
+    await submissions.create({ ...submission, round: 2, status: 'queued' });
+    const { _id } = await submissions.create({ ...submission, status: 'queued' });
+    await submissions.create({ ...submission, status: 'validating' });
+
+    expect(await submissions.countActiveByDevice('device')).toBe(4);
+    expect(await submissions.countActiveByDevice('device', 1)).toBe(3);
+    expect(await submissions.countActiveByDevice('device', 1, _id)).toBe(1);
+    expect(await submissions.countActiveByDevice('other')).toBe(0);
+  });
+
+  it('updates the submissions in some statuses', async () => {
+    const [queued, rewarding, rewarded] = await Promise.all(
+      (['queued', 'rewarding', 'rewarded'] as const).map(status => submissions.create({ ...submission, status })),
+    );
+
+    expect(await submissions.updateByStatus(['queued', 'rewarding'], { status: 'failed', reason: 'Interrupted' })).toBe(2);
+
+    expect((await submissions.findById(queued._id)).status).toBe('failed');
+    expect((await submissions.findById(rewarding._id)).reason).toBe('Interrupted');
+    expect((await submissions.findById(rewarded._id)).status).toBe('rewarded');
+  });
+});
+
+describe('SqliteSubmissionRepository', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ecoearn-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps the submissions when the database is opened again', async () => {
+    const path = join(dir, 'data', 'ecoearn.sqlite');
+    const db = openDatabase(path);
+    const { _id } = await new SqliteSubmissionRepository(db).create({ address: '0x01', timestamp: 1, status: 'queued' });
+    db.close();
+
+    const reopened = openDatabase(path);
+    expect(await new SqliteSubmissionRepository(reopened).findById(_id)).toMatchObject({ _id, address: '0x01', status: 'queued' });
+    reopened.close();
+  });
+});
@@ -0,0 +1,87 @@
+import 'reflect-metadata';
+import { Container } from 'typedi';
+import { unitsUtils } from '@vechain/sdk-core';
+import { ReceiptVerdict } from '@/interfaces/verdict.interface';
+import { ContractsService } from '@/services/contracts.service';
+import { RewardService } from '@/services/reward.service';
+import { MAX_POINTS_PER_SUBMISSION, REWARD_AMOUNT } from '@config';
+
+// The contracts are not deployed when testing
+jest.mock('@/services/contracts.service', () => ({ ContractsService: class {} }));
+jest.mock('@config', () => ({ ...jest.requireActual('@config') }));
+
+describe('RewardService', () => {
+  const verdict = (quantity: number) => ({
+    validityFactor: 1,
+    descriptionOfAnalysis: 'Receipt of a coffee shop',
+    lineItems: [{ name: 'Organic coffee', quantity, price: 3 }],
+  });
+
+  let rewards: RewardService;
+
+  beforeEach(() => {
+    Container.reset();
+    Container.set(ContractsService, { getRewardsLeft: async () => unitsUtils.parseUnits('1000000', 'ether') });
+    rewards = Container.get(RewardService);
+  });
+
+  it('rewards each point of the receipt', async () => {
+    const { amount } = await rewards.computeReward(verdict(2));
+
+    expect(amount).toBe(unitsUtils.parseUnits(REWARD_AMOUNT, 'ether') * BigInt(2));
+  });
+
+  it('caps the points of a submission', async () => {
+    const { amount, items } = await rewards.computeReward(verdict(MAX_POINTS_PER_SUBMISSION * 10));
+
+    expect(items[0].points).toBe(MAX_POINTS_PER_SUBMISSION * 10);
+    expect(amount).toBe(unitsUtils.parseUnits(REWARD_AMOUNT, 'ether') * BigInt(MAX_POINTS_PER_SUBMISSION));
+  });
+
+  it('caps the reward by the rewards left in the cycle', async () => {
+    Container.set(ContractsService, { getRewardsLeft: async () => BigInt(1) });
+    rewards.contracts = Container.get(ContractsService);
+
+    const { amount } = await rewards.computeReward(verdict(2));
+
+    expect(amount).toBe(BigInt(1));
+  });
+
+  describe('buildProof', () => {
+    const config = jest.requireMock('@config');
+    const submission = { address: '0x7567d83b7b8d80addcb281a71d54fc7b3364ffed', timestamp: 0, imageHash: '0xabcd' };
+
+    const buildProof = async (verdict: ReceiptVerdict) => rewards.buildProof(submission, verdict, await rewards.computeReward(verdict));
+
+    afterEach(() => {
+      config.PROOF_IMAGE_BASE_URL = '';
+    });
+
+    it('proves the receipt by the hash of its image, or a link to it', async () => {
+      expect(await buildProof(verdict(1))).toMatchObject({ proofTypes: ['image'], proofValues: ['0xabcd'] });
+
+      config.PROOF_IMAGE_BASE_URL = 'https://receipts.ecoearn.example/';
+      expect(await buildProof(verdict(1))).toMatchObject({ proofTypes: ['link'], proofValues: ['https://receipts.ecoearn.example/0xabcd'] });
+    });
+
+    it('adds up the impacts of the products bought, leaving out those rounding to zero', async () => {
+      const proof = await buildProof({
+        ...verdict(1),
+        lineItems: [
+          { name: 'Reusable cup', quantity: 2, price: 8 },
+          { name: 'Oat milk', quantity: 0.001, price: 0.01 },
+          { name: 'Refill', quantity: 1, price: 1 },
+        ],
+      });
+
+      expect(proof).toMatchObject({ impactCodes: ['plastic'], impactValues: [BigInt(30)] });
+    });
+
+    it('describes the receipt with the analysis, escaped and cut to fit on chain', async () => {
+      const { description } = await buildProof({ ...verdict(1), descriptionOfAnalysis: `A "fair" receipt\n${'x'.repeat(400)}` });
+
+      expect(description.startsWith('A \\"fair\\" receipt\\n')).toBe(true);
+      expect(JSON.parse(`"${description}"`)).toHaveLength(280);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import 'reflect-metadata';
+import { Container } from 'typedi';
+import { ContractsService } from '@/services/contracts.service';
+import { RulesService } from '@/services/rules.service';
+
+jest.mock('@/services/contracts.service', () => ({ ContractsService: class {} }));
+jest.mock('@config', () => ({
+  ...jest.requireActual('@config'),
+  RECEIPT_MAX_AGE_DAYS: 7,
+  RECEIPT_DATE_IN_CYCLE: true,
+  STORE_BLOCKLIST: ['Fast Coffee'],
+}));
+
+describe('RulesService', () => {
+  const submittedAt = Date.parse('2026-10-19T10:00:00Z');
+  const submission = { address: '0x7567d83b7b8d80addcb281a71d54fc7b3364ffed', timestamp: submittedAt };
+  const verdict = { validityFactor: 1, descriptionOfAnalysis: 'A receipt', storeName: 'Green Beans', purchaseDate: '2026-10-18' };
+
+  let getCurrentCycleStartTimestamp: jest.Mock;
+
+  beforeEach(() => {
+    getCurrentCycleStartTimestamp = jest.fn().mockResolvedValue(Date.parse('2026-10-14T08:30:00Z'));
+
+    Container.reset();
+    Container.set(ContractsService, { getCurrentCycleStartTimestamp });
+  });
+
+  const evaluate = async (changes: Partial<typeof verdict>) => {
+    const results = await Container.get(RulesService).evaluate(submission, { ...verdict, ...changes });
+    return Object.fromEntries(results.map(result => [result.rule, result.passed]));
+  };
+
+  it('passes a recent receipt of the current cycle from an accepted store', async () => {
+    expect(await evaluate({})).toEqual({
+      purchaseDateNotInFuture: true,
+      purchaseDateWithinDays: true,
+      purchaseDateInCurrentCycle: true,
+      storeNotBlocklisted: true,
+    });
+    expect(getCurrentCycleStartTimestamp).toHaveBeenCalledTimes(1);
+  });
+
+  it('tolerates a purchase dated the day after the submission, not later', async () => {
+    expect(await evaluate({ purchaseDate: '2026-10-20' })).toMatchObject({ purchaseDateNotInFuture: true });
+    expect(await evaluate({ purchaseDate: '2026-10-21' })).toMatchObject({ purchaseDateNotInFuture: false });
+  });
+
+  it('fails a purchase older than the maximum age', async () => {
+    expect(await evaluate({ purchaseDate: '2026-10-12' })).toMatchObject({ purchaseDateWithinDays: true });
+    expect(await evaluate({ purchaseDate: '2026-10-11' })).toMatchObject({ purchaseDateWithinDays: false });
+  });
+
+  it('fails a purchase made before the day the cycle started', async () => {
+    expect(await evaluate({ purchaseDate: '2026-10-14' })).toMatchObject({ purchaseDateInCurrentCycle: true });
+    expect(await evaluate({ purchaseDate: '2026-10-13' })).toMatchObject({ purchaseDateInCurrentCycle: false });
+  });
+
+  it('fails the date rules when the purchase date could not be read', async () => {
+    const results = await Container.get(RulesService).evaluate(submission, { ...verdict, purchaseDate: undefined });
+
+    expect(results.filter(result => result.rule.startsWith('purchaseDate'))).toEqual([
+      { rule: 'purchaseDateNotInFuture', passed: false, reason: 'The purchase date could not be read on the receipt' },
+      { rule: 'purchaseDateWithinDays', passed: false, reason: 'The purchase date could not be read on the receipt' },
+      { rule: 'purchaseDateInCurrentCycle', passed: false, reason: 'The purchase date could not be read on the receipt' },
+    ]);
+  });
+
+  it('fails a receipt from a blocklisted store, whatever the case of its name', async () => {
+    expect(await evaluate({ storeName: 'FAST COFFEE Station 12' })).toMatchObject({ storeNotBlocklisted: false });
+    expect(await evaluate({ storeName: undefined })).toMatchObject({ storeNotBlocklisted: true });
+  });
+});
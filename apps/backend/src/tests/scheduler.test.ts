@@ -0,0 +1,100 @@
+import 'reflect-metadata';
+import { Container } from 'typedi';
+import { AdminService } from '@/services/admin.service';
+import { ContractsService } from '@/services/contracts.service';
+import { CycleSchedulerService } from '@/services/scheduler.service';
+
+// The contracts are not deployed when testing, the chain is simulated by the mocks below
+jest.mock('@/services/admin.service', () => ({ AdminService: class {} }));
+jest.mock('@/services/contracts.service', () => ({ ContractsService: class {} }));
+jest.mock('@/utils/thor', () => ({ thor: { blocks: { getBestBlockCompressed: async () => ({ number: 100 }) } } }));
+jest.mock('@/utils/retry', () => ({ retry: (fn: () => Promise<unknown>) => fn() }));
+jest.mock('@config', () => ({ ...jest.requireActual('@config'), CYCLE_WITHDRAW_REWARDS: true }));
+
+describe('CycleSchedulerService', () => {
+  let cycle: number;
+  let nextCycleBlock: number;
+  let rewardsLeft: Record<number, bigint>;
+  let admin: { triggerCycle: jest.Mock; withdrawRewards: jest.Mock };
+  let scheduler: CycleSchedulerService;
+
+  beforeEach(() => {
+    cycle = 1;
+    nextCycleBlock = 100;
+    rewardsLeft = { 1: BigInt(5) };
+    admin = {
+      triggerCycle: jest.fn(async () => {
+        cycle += 1;
+        nextCycleBlock += 100;
+        return { txId: '0xtrigger' };
+      }),
+      withdrawRewards: jest.fn(async (actor: string, withdrawn: number) => {
+        rewardsLeft[withdrawn] = BigInt(0);
+        return { txId: '0xwithdraw' };
+      }),
+    };
+
+    scheduler = createScheduler();
+  });
+
+  // A new scheduler knows nothing of the previous ones, as after a restart
+  const createScheduler = () => {
+    Container.reset();
+    Container.set(AdminService, admin);
+    Container.set(ContractsService, {
+      getCurrentCycle: async () => cycle,
+      getNextCycle: async () => cycle + 1,
+      getNextCycleBlock: async () => nextCycleBlock,
+      getRewardsLeft: async (withdrawn: number) => rewardsLeft[withdrawn] ?? BigInt(0),
+    });
+    return Container.get(CycleSchedulerService);
+  };
+
+  it('starts the next cycle and withdraws the rewards left in the ended one', async () => {
+    await scheduler['tick']();
+
+    expect(admin.triggerCycle).toHaveBeenCalledTimes(1);
+    expect(admin.withdrawRewards).toHaveBeenCalledWith('scheduler', 1);
+  });
+
+  it('retries a failed withdrawal on the next tick', async () => {
+    admin.withdrawRewards.mockRejectedValueOnce(new Error('Transaction reverted'));
+
+    await scheduler['tick']();
+    expect(cycle).toBe(2);
+    expect(admin.withdrawRewards).toHaveBeenCalledTimes(1);
+
+    await scheduler['tick']();
+    expect(admin.triggerCycle).toHaveBeenCalledTimes(1);
+    expect(admin.withdrawRewards).toHaveBeenCalledTimes(2);
+    expect(admin.withdrawRewards).toHaveBeenLastCalledWith('scheduler', 1);
+
+    await scheduler['tick']();
+    expect(admin.withdrawRewards).toHaveBeenCalledTimes(2);
+  });
+
+  it('withdraws the rewards left in past cycles after a restart', async () => {
+    admin.withdrawRewards.mockRejectedValueOnce(new Error('Transaction reverted'));
+
+    await scheduler['tick']();
+    expect(cycle).toBe(2);
+
+    await createScheduler()['tick']();
+
+    expect(admin.withdrawRewards).toHaveBeenCalledTimes(2);
+    expect(admin.withdrawRewards).toHaveBeenLastCalledWith('scheduler', 1);
+    expect(rewardsLeft[1]).toBe(BigInt(0));
+  });
+
+  it('only withdraws from the past cycles with rewards left', async () => {
+    cycle = 4;
+    nextCycleBlock = 200;
+    rewardsLeft = { 1: BigInt(0), 2: BigInt(5), 3: BigInt(0), 4: BigInt(5) };
+
+    await scheduler['tick']();
+
+    expect(admin.triggerCycle).not.toHaveBeenCalled();
+    expect(admin.withdrawRewards).toHaveBeenCalledTimes(1);
+    expect(admin.withdrawRewards).toHaveBeenCalledWith('scheduler', 2);
+  });
+});
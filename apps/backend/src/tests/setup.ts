@@ -0,0 +1,3 @@
+// Tests run without a database nor a vision model
+process.env.DATABASE_DRIVER = 'memory';
+process.env.VISION_PROVIDER = 'stub';
@@ -0,0 +1,113 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Secp256k1, addressUtils, keystore } from '@vechain/sdk-core';
+import { KeystoreSignerProvider, RemoteSignerProvider } from '@/services/helpers/signer';
+import { createWallet } from './helpers';
+
+describe('Signer providers', () => {
+  const admin = createWallet(1);
+  const other = createWallet(2);
+  const hash = Buffer.alloc(32, 7);
+
+  const signedBy = (signature: Uint8Array) => addressUtils.fromPublicKey(Secp256k1.recover(hash, signature)).toLowerCase();
+
+  describe('KeystoreSignerProvider', () => {
+    const directory = mkdtempSync(join(tmpdir(), 'keystore-'));
+    const path = join(directory, 'admin.json');
+
+    beforeAll(async () => {
+      writeFileSync(path, JSON.stringify(await keystore.encrypt(admin.privateKey, 'password')));
+    });
+
+    afterAll(() => rmSync(directory, { recursive: true }));
+
+    it('signs with the key of the keystore', async () => {
+      const signer = new KeystoreSignerProvider(path, 'password');
+
+      expect((await signer.getAddress()).toLowerCase()).toBe(admin.address);
+      expect(signedBy(await signer.sign(hash))).toBe(admin.address);
+    });
+
+    it('rejects a wrong password, without remembering it', async () => {
+      const signer = new KeystoreSignerProvider(path, 'wrong');
+
+      await expect(signer.sign(hash)).rejects.toThrow();
+
+      signer['password'] = 'password';
+      expect(signedBy(await signer.sign(hash))).toBe(admin.address);
+    }, 30000); // Each decryption takes a few seconds of scrypt
+
+    it('refuses a file that is not a keystore', () => {
+      const invalid = join(directory, 'invalid.json');
+      writeFileSync(invalid, JSON.stringify({ address: admin.address }));
+
+      expect(() => new KeystoreSignerProvider(invalid, 'password')).toThrow('is not a valid keystore file');
+    });
+  });
+
+  describe('RemoteSignerProvider', () => {
+    let server: Server;
+    let url: string;
+    // Key the signing service signs with, and the requests it received
+    let key: Buffer;
+    let answer: (signature: string) => string;
+    let requests: { headers: Record<string, unknown>; body: { address: string; hash: string } }[];
+
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        let data = '';
+        req.on('data', chunk => (data += chunk));
+        req.on('end', () => {
+          const body = JSON.parse(data);
+          requests.push({ headers: req.headers, body });
+          const signature = Secp256k1.sign(Buffer.from(body.hash.slice(2), 'hex'), key);
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({ signature: answer(`0x${Buffer.from(signature).toString('hex')}`) }));
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, resolve));
+      url = `http://localhost:${(server.address() as AddressInfo).port}/sign`;
+    });
+
+    afterAll(() => new Promise(resolve => server.close(resolve)));
+
+    beforeEach(() => {
+      key = admin.privateKey;
+      answer = signature => signature;
+      requests = [];
+    });
+
+    it('signs through the signing service', async () => {
+      const signer = new RemoteSignerProvider({ url, address: admin.address, apiKey: 'secret' });
+
+      expect(signedBy(await signer.sign(hash))).toBe(admin.address);
+      expect(requests).toEqual([
+        {
+          headers: expect.objectContaining({ authorization: 'Bearer secret' }),
+          body: { address: admin.address, hash: `0x${hash.toString('hex')}` },
+        },
+      ]);
+    });
+
+    it('refuses a signature of another account', async () => {
+      key = other.privateKey;
+      const signer = new RemoteSignerProvider({ url, address: admin.address });
+
+      await expect(signer.sign(hash)).rejects.toThrow('The remote signer answered with a signature of another account');
+    });
+
+    it('refuses a malformed signature', async () => {
+      answer = signature => signature.slice(0, -2);
+      const signer = new RemoteSignerProvider({ url, address: admin.address });
+
+      await expect(signer.sign(hash)).rejects.toThrow('The remote signer answered with a signature of another account');
+    });
+
+    it('refuses an invalid address', () => {
+      expect(() => new RemoteSignerProvider({ url, address: 'admin' })).toThrow('The address of the remote signer is invalid');
+    });
+  });
+});
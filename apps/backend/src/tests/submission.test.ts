@@ -0,0 +1,226 @@
+import 'reflect-metadata';
+import { once } from 'events';
+import { get, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import { Application } from 'express';
+import { Container } from 'typedi';
+import { Certificate } from '@vechain/sdk-core';
+import { App } from '@/app';
+import { HttpException } from '@/exceptions/HttpException';
+import { initializeRepositories, SUBMISSION_REPOSITORY } from '@/repositories';
+import { SubmissionRoute } from '@/routes/submission.route';
+import { BalanceService } from '@/services/balance.service';
+import { ContractsService } from '@/services/contracts.service';
+import { NonceService } from '@/services/nonce.service';
+import { QueueService } from '@/services/queue.service';
+import { SubmissionService } from '@/services/submission.service';
+import { hashImage } from '@/utils/data';
+import { buildSubmissionMessage } from '@/utils/signature';
+import { createImage, createWallet, signCertificate } from './helpers';
+
+// The contracts are not deployed and the receipts are not analysed when testing
+jest.mock('@/services/balance.service', () => ({ BalanceService: class {} }));
+jest.mock('@/services/contracts.service', () => ({ ContractsService: class {} }));
+jest.mock('@/services/queue.service', () => ({ QueueService: class {} }));
+
+describe('SubmissionService', () => {
+  const submission = { address: '0x7567d83b7b8d80addcb281a71d54fc7b3364ffed', deviceID: 'device', timestamp: 0 };
+
+  let submissions: SubmissionService;
+
+  beforeEach(() => {
+    Container.reset();
+    initializeRepositories();
+    submissions = Container.get(SubmissionService);
+  });
+
+  describe('assertNotDuplicate', () => {
+    it('stores the perceptual hash of a new image', async () => {
+      const image = await createImage(1);
+      const { _id } = await submissions.createSubmission({ ...submission, image });
+
+      await submissions.assertNotDuplicate(_id, image);
+
+      expect((await Container.get(SUBMISSION_REPOSITORY).findById(_id)).perceptualHash).toMatch(/^[0-9a-f]{16}$/);
+    });
+
+    it('rejects a re-encoded copy of an image already submitted', async () => {
+      const first = await submissions.createSubmission(submission);
+      await submissions.assertNotDuplicate(first._id, await createImage(1));
+
+      const second = await submissions.createSubmission(submission);
+      await expect(submissions.assertNotDuplicate(second._id, await createImage(1, 'jpeg'))).rejects.toMatchObject({ status: 409 });
+    });
+
+    it('accepts different images', async () => {
+      const first = await submissions.createSubmission(submission);
+      await submissions.assertNotDuplicate(first._id, await createImage(1));
+
+      const second = await submissions.createSubmission(submission);
+      await expect(submissions.assertNotDuplicate(second._id, await createImage(2))).resolves.toBeUndefined();
+    });
+
+    it('lets a single one of concurrent uploads of the same image through', async () => {
+      const image = await createImage(1);
+      const created = await Promise.all([1, 2, 3].map(() => submissions.createSubmission(submission)));
+
+      // A database round trip gives the other uploads the time to run their own check
+      const repository = Container.get(SUBMISSION_REPOSITORY);
+      const findSimilarImage = repository.findSimilarImage.bind(repository);
+      jest.spyOn(repository, 'findSimilarImage').mockImplementation(async (perceptualHash: string, maxDistance: number) => {
+        const found = await findSimilarImage(perceptualHash, maxDistance);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        return found;
+      });
+
+      const results = await Promise.allSettled(created.map(({ _id }) => submissions.assertNotDuplicate(_id, image)));
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      expect(results.filter(result => result.status === 'rejected')).toHaveLength(2);
+    });
+
+    it('rejects what is not an image', async () => {
+      const { _id } = await submissions.createSubmission(submission);
+
+      await expect(submissions.assertNotDuplicate(_id, 'data:image/png;base64,aGVsbG8=')).rejects.toMatchObject({ status: 400 });
+    });
+  });
+});
+
+describe('SubmissionRoute', () => {
+  const wallet = createWallet(1);
+
+  let queue: { enqueue: jest.Mock };
+  let app: Application;
+
+  beforeEach(() => {
+    queue = { enqueue: jest.fn() };
+
+    Container.reset();
+    initializeRepositories();
+    Container.set(BalanceService, { assertAcceptingSubmissions: async () => undefined });
+    Container.set(ContractsService, { getCurrentCycle: async () => 1, validateSubmission: async () => undefined });
+    Container.set(QueueService, queue);
+    app = new App([new SubmissionRoute()]).getServer();
+  });
+
+  const sign = (image: string, signer = wallet, fields: Partial<Certificate> = {}) => {
+    const { nonce } = Container.get(NonceService).issue(wallet.address);
+    const certificate = signCertificate(signer, buildSubmissionMessage(hashImage(image), nonce), fields);
+    return { image, address: wallet.address, deviceID: 'device', nonce, certificate };
+  };
+
+  const submit = async (image: string) => request(app).post('/submitReceipt').send(sign(image));
+
+  describe('[POST] /submitReceipt', () => {
+    it('queues the analysis of a new receipt', async () => {
+      const response = await submit(await createImage(1));
+
+      expect(response.status).toBe(202);
+      expect(response.body).toMatchObject({ status: 'queued' });
+      expect(queue.enqueue).toHaveBeenCalledTimes(1);
+    });
+
+    it('refuses receipts with a 503 while they could not be rewarded', async () => {
+      Container.set(BalanceService, {
+        assertAcceptingSubmissions: async () => {
+          throw new HttpException(503, 'EcoEarn: Not enough rewards left for this cycle, please try again in the next one');
+        },
+      });
+      app = new App([new SubmissionRoute()]).getServer();
+
+      const response = await submit(await createImage(1));
+
+      expect(response.status).toBe(503);
+      expect(await Container.get(SubmissionService).getSubmissionsByAddress(wallet.address)).toEqual([]);
+      expect(queue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('rejects a near-duplicate receipt before it is analysed', async () => {
+      await submit(await createImage(1));
+
+      const response = await submit(await createImage(1, 'jpeg'));
+
+      expect(response.status).toBe(409);
+      expect(queue.enqueue).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects a signed submission sent again', async () => {
+      const body = sign(await createImage(1));
+      await request(app).post('/submitReceipt').send(body);
+
+      const response = await request(app).post('/submitReceipt').send(body);
+
+      expect(response.status).toBe(401);
+      expect(queue.enqueue).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects a submission signed by another wallet', async () => {
+      const image = await createImage(1);
+      const other = createWallet(2);
+
+      const responses = await Promise.all([
+        request(app).post('/submitReceipt').send(sign(image, other)),
+        request(app)
+          .post('/submitReceipt')
+          .send(sign(image, other, { signer: wallet.address })),
+      ]);
+
+      expect(responses.map(response => response.status)).toEqual([401, 401]);
+      expect(queue.enqueue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('[GET] /submissions/:id/events', () => {
+    let server: Server;
+
+    beforeEach(() => {
+      server = app.listen(0);
+    });
+
+    afterEach(() => {
+      server.close();
+    });
+
+    const listen = async (id: string) => {
+      const [response] = (await once(get(`http://127.0.0.1:${(server.address() as AddressInfo).port}/submissions/${id}/events`), 'response')) as [
+        IncomingMessage,
+      ];
+      response.setEncoding('utf8');
+      await once(response, 'data');
+      return response;
+    };
+
+    const listeners = (id: string) => Container.get(SubmissionService)['events'].listenerCount(id);
+
+    it('streams the progress of a submission until it is final', async () => {
+      const submissions = Container.get(SubmissionService);
+      const { _id } = await submissions.createSubmission({ address: wallet.address, deviceID: 'device', timestamp: 0 });
+      const response = await listen(_id);
+
+      let events = '';
+      response.on('data', chunk => (events += chunk));
+      await submissions.updateSubmission(_id, { status: 'validating' });
+      // Sent before the stream is closed, after it ended
+      await Promise.all([submissions.updateSubmission(_id, { status: 'rewarded' }), submissions.updateSubmission(_id, { status: 'failed' })]);
+      await once(response, 'end');
+
+      expect(events.match(/^event: \w+$/gm)).toEqual(['event: validating', 'event: rewarded']);
+      expect(listeners(_id)).toBe(0);
+    });
+
+    it('stops writing to a client which went away', async () => {
+      const submissions = Container.get(SubmissionService);
+      const { _id } = await submissions.createSubmission({ address: wallet.address, deviceID: 'device', timestamp: 0 });
+      const clearInterval = jest.spyOn(global, 'clearInterval');
+      const response = await listen(_id);
+
+      response.destroy();
+      while (listeners(_id)) await new Promise(resolve => setTimeout(resolve, 10));
+
+      await expect(submissions.updateSubmission(_id, { status: 'validating' })).resolves.toBeDefined();
+      expect(clearInterval).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import 'reflect-metadata';
+import { Container } from 'typedi';
+import { TransactionBody, TransactionHandler } from '@vechain/sdk-core';
+import {
+  CycleOverException,
+  MaxSubmissionsReachedException,
+  RewardsExhaustedException,
+  TransactionExpiredException,
+  TransactionRevertedException,
+  toRevertException,
+} from '@/exceptions/TransactionException';
+import { TransactionService } from '@/services/transaction.service';
+import { TransactionToSign } from '@/services/helpers/signer/transaction';
+import { Clause } from '@/utils/model';
+import { adminSigner, thor } from '@/utils/thor';
+
+// The node is simulated, the transactions are signed for real so they have an id
+jest.mock('@/utils/thor', () => ({
+  adminSigner: { getAddress: jest.fn(), signTransaction: jest.fn() },
+  thor: { gas: { estimateGas: jest.fn() }, transactions: { sendRawTransaction: jest.fn(), waitForTransaction: jest.fn() } },
+}));
+jest.mock('@config', () => ({ ...jest.requireActual('@config'), TX_MAX_RETRIES: 2, TX_RETRY_DELAY: 0, TX_GAS_PADDING: 0.2 }));
+
+describe('toRevertException', () => {
+  it.each([
+    ['EcoEarn: Max submissions per user reached for this cycle', MaxSubmissionsReachedException, 409],
+    ['EcoEarn: Not enough rewards left', RewardsExhaustedException, 409],
+    ['EcoEarn: Cycle is over', CycleOverException, 503],
+    ['AccessControl: account is missing role', TransactionRevertedException, 500],
+  ])('maps "%s" to its exception', (reason, exception, status) => {
+    const error = toRevertException(reason);
+
+    expect(error).toBeInstanceOf(exception);
+    expect(error).toMatchObject({ status, reason });
+  });
+});
+
+describe('TransactionService', () => {
+  const clauses: Clause[] = [{ to: '0x0000000000000000000000000000000000000001', value: '0x0', data: '0x' }];
+  const privateKey = Buffer.alloc(32, 1);
+
+  const estimateGas = thor.gas.estimateGas as jest.Mock;
+  const sendRawTransaction = thor.transactions.sendRawTransaction as jest.Mock;
+  const waitForTransaction = thor.transactions.waitForTransaction as jest.Mock;
+  const signTransaction = adminSigner.signTransaction as jest.Mock;
+
+  let transactions: TransactionService;
+
+  const receipt = (reverted = false) => ({ reverted, meta: { blockNumber: 100, txID: '0x01' } });
+  const estimate = (revertReason?: string) => ({
+    totalGas: 50000.4,
+    reverted: revertReason !== undefined,
+    revertReasons: revertReason ? [revertReason] : [],
+    vmErrors: revertReason ? ['execution reverted'] : [],
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    (adminSigner.getAddress as jest.Mock).mockResolvedValue('0x7567d83b7b8d80addcb281a71d54fc7b3364ffed');
+    signTransaction.mockImplementation(async ({ clauses, gas, expiration }: TransactionToSign) => {
+      const body: TransactionBody = {
+        chainTag: 0x27,
+        blockRef: '0x0000000000000000',
+        expiration,
+        clauses,
+        gasPriceCoef: 0,
+        gas,
+        dependsOn: null,
+        nonce: Math.floor(Math.random() * 1e9),
+      };
+      return `0x${TransactionHandler.sign(body, privateKey).encoded.toString('hex')}`;
+    });
+    estimateGas.mockResolvedValue(estimate());
+    sendRawTransaction.mockResolvedValue({ id: '0x01' });
+    waitForTransaction.mockResolvedValue(receipt());
+
+    Container.reset();
+    transactions = Container.get(TransactionService);
+  });
+
+  it('sends the transaction with the padded gas estimate and waits for its receipt', async () => {
+    const onSent = jest.fn();
+
+    const { txId, receipt: sent } = await transactions.execute(clauses, onSent);
+
+    expect(sent.reverted).toBe(false);
+    expect(onSent).toHaveBeenCalledWith(txId);
+    expect(estimateGas).toHaveBeenCalledWith(clauses, expect.any(String), { gasPadding: 0.2, revision: undefined });
+    expect(signTransaction).toHaveBeenCalledWith({ clauses, gas: 50001, expiration: expect.any(Number) });
+  });
+
+  it('does not send a transaction the contract would revert, nor retry it', async () => {
+    estimateGas.mockResolvedValue(estimate('EcoEarn: Not enough rewards left'));
+
+    await expect(transactions.execute(clauses)).rejects.toBeInstanceOf(RewardsExhaustedException);
+    expect(estimateGas).toHaveBeenCalledTimes(1);
+    expect(sendRawTransaction).not.toHaveBeenCalled();
+  });
+
+  it('sends the very same transaction again when the node fails', async () => {
+    sendRawTransaction.mockRejectedValueOnce(new Error('socket hang up')).mockRejectedValueOnce(new Error('tx rejected: known tx'));
+
+    await transactions.execute(clauses);
+
+    expect(signTransaction).toHaveBeenCalledTimes(1);
+    expect(sendRawTransaction).toHaveBeenCalledTimes(2);
+    expect(sendRawTransaction.mock.calls[1][0]).toBe(sendRawTransaction.mock.calls[0][0]);
+  });
+
+  it('signs and sends a new transaction once the previous one expired', async () => {
+    const onSent = jest.fn();
+    waitForTransaction.mockResolvedValueOnce(null);
+
+    const { txId } = await transactions.execute(clauses, onSent);
+
+    expect(signTransaction).toHaveBeenCalledTimes(2);
+    expect(onSent.mock.calls.map(([id]) => id)).toEqual([expect.not.stringMatching(txId), txId]);
+  });
+
+  it('gives up once the transaction expired on every attempt', async () => {
+    waitForTransaction.mockResolvedValue(null);
+
+    await expect(transactions.execute(clauses)).rejects.toBeInstanceOf(TransactionExpiredException);
+    expect(signTransaction).toHaveBeenCalledTimes(3);
+  });
+
+  it('explains a reverted transaction by simulating it on top of the previous block', async () => {
+    waitForTransaction.mockResolvedValue(receipt(true));
+    estimateGas.mockResolvedValueOnce(estimate()).mockResolvedValueOnce(estimate('EcoEarn: Cycle is over'));
+
+    await expect(transactions.execute(clauses)).rejects.toBeInstanceOf(CycleOverException);
+    expect(estimateGas).toHaveBeenLastCalledWith(clauses, expect.any(String), expect.objectContaining({ revision: '99' }));
+    expect(signTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends one transaction at a time', async () => {
+    let include: () => void;
+    waitForTransaction.mockImplementationOnce(() => new Promise(resolve => (include = () => resolve(receipt()))));
+
+    const first = transactions.execute(clauses);
+    const second = transactions.execute(clauses);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(signTransaction).toHaveBeenCalledTimes(1);
+
+    include();
+    await Promise.all([first, second]);
+    expect(signTransaction).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,79 @@
+import 'reflect-metadata';
+import request from 'supertest';
+import { Container } from 'typedi';
+import { App } from '@/app';
+import { CONTRACT_EVENT_REPOSITORY, initializeRepositories, SUBMISSION_REPOSITORY } from '@/repositories';
+import { UserRoute } from '@/routes/user.route';
+import { ContractsService } from '@/services/contracts.service';
+import { UserService } from '@/services/user.service';
+
+// The contracts are not deployed when testing
+jest.mock('@/services/contracts.service', () => ({ ContractsService: class {} }));
+
+describe('UserService', () => {
+  const address = '0x7567d83b7b8d80addcb281a71d54fc7b3364ffed';
+  const oneB3TR = '1000000000000000000';
+  const verdict = { validityFactor: 1, descriptionOfAnalysis: 'Two coffees at Green Beans' };
+
+  const reward = (txId: string, cycle: number, blockNumber: number) => ({
+    name: 'Submission' as const,
+    cycle,
+    participant: address,
+    amount: oneB3TR,
+    blockNumber,
+    blockID: `0x${blockNumber}`,
+    timestamp: blockNumber * 1000,
+    txId,
+    clauseIndex: 0,
+  });
+
+  beforeEach(async () => {
+    Container.reset();
+    initializeRepositories();
+    Container.set(ContractsService, { getCurrentCycle: async () => 2, getMaxSubmissionsPerCycle: async () => 3 });
+
+    const submissions = Container.get(SUBMISSION_REPOSITORY);
+    await submissions.create({ address, round: 1, timestamp: 1, status: 'rewarded', verdict, reward: oneB3TR, txId: '0xa' });
+    await submissions.create({ address, round: 2, timestamp: 2, status: 'rewarded', verdict, reward: oneB3TR, txId: '0xb' });
+    await submissions.create({ address, round: 2, timestamp: 3, status: 'rejected', reason: 'The purchase date is in the future' });
+    await submissions.create({ address: '0x435933c8064b4ae76be665428e0307ef2ccfbd68', round: 2, timestamp: 4, status: 'rewarded' });
+
+    // The reward of 0xb is not indexed yet, 0xc was sent before the backend kept its submissions
+    await Container.get(CONTRACT_EVENT_REPOSITORY).replaceFrom(0, 30, [reward('0xc', 1, 5), reward('0xa', 1, 10), reward('0xd', 2, 20)]);
+  });
+
+  it('lists the submissions of the participant, and whether their reward is on chain', async () => {
+    const { submissions } = await Container.get(UserService).getActivity(address);
+
+    expect(submissions).toEqual([
+      expect.objectContaining({ cycle: 2, status: 'rejected', reason: 'The purchase date is in the future', confirmed: false }),
+      expect.objectContaining({ cycle: 2, status: 'rewarded', reward: '1.0', txId: '0xb', confirmed: false }),
+      expect.objectContaining({ cycle: 1, status: 'rewarded', reward: '1.0', txId: '0xa', confirmed: true }),
+    ]);
+    expect(submissions[0]).not.toHaveProperty('verdict');
+  });
+
+  it('sums up the rewards found on chain, and the submissions left this cycle', async () => {
+    const activity = await Container.get(UserService).getActivity(address);
+
+    expect(activity).toMatchObject({ cycle: 2, submissionsThisCycle: 1, maxSubmissionsPerCycle: 3, submissionsLeft: 2, totalEarned: '3.0' });
+    expect(activity.rewards.map(reward => reward.txId)).toEqual(['0xd', '0xa', '0xc']);
+  });
+});
+
+describe('UserRoute', () => {
+  beforeEach(() => {
+    Container.reset();
+    initializeRepositories();
+    Container.set(ContractsService, { getCurrentCycle: async () => 1, getMaxSubmissionsPerCycle: async () => 3 });
+  });
+
+  describe('[GET] /users/:address/submissions', () => {
+    it('refuses what is not an address', async () => {
+      const app = new App([new UserRoute()]).getServer();
+
+      await request(app).get('/users/0x7567d83b7b8d80addcb281a71d54fc7b3364ffed/submissions').expect(200);
+      await request(app).get('/users/alice/submissions').expect(400);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import OpenAI from 'openai';
+import { OpenAICompatibleVisionProvider, OpenAIHelper, OpenAIVisionProvider, parseJSONResponse, StubVisionProvider } from '@/services/helpers';
+import { initializeVisionProvider } from '@/utils/initializeVisionProvider';
+
+jest.mock('@config', () => ({ ...jest.requireActual('@config') }));
+
+describe('initializeVisionProvider', () => {
+  const config = jest.requireMock('@config');
+
+  afterEach(() => {
+    Object.assign(config, { VISION_PROVIDER: 'stub', VISION_MODEL: '', VISION_BASE_URL: '' });
+  });
+
+  it('creates the configured provider', () => {
+    Object.assign(config, { VISION_PROVIDER: 'openai-compatible', VISION_MODEL: 'llava', VISION_BASE_URL: 'http://localhost:11434/v1' });
+    expect(initializeVisionProvider()).toBeInstanceOf(OpenAICompatibleVisionProvider);
+
+    Object.assign(config, { VISION_PROVIDER: 'stub', VISION_STUB_VALIDITY_FACTOR: 0.5 });
+    expect(initializeVisionProvider()).toBeInstanceOf(StubVisionProvider);
+  });
+
+  it('requires the URL and model of an openai-compatible server', () => {
+    Object.assign(config, { VISION_PROVIDER: 'openai-compatible', VISION_MODEL: 'llava' });
+
+    expect(() => initializeVisionProvider()).toThrow('VISION_BASE_URL and VISION_MODEL are required by the openai-compatible vision provider');
+  });
+
+  it('rejects an unknown provider', () => {
+    config.VISION_PROVIDER = 'unknown';
+
+    expect(() => initializeVisionProvider()).toThrow('Unknown vision provider: unknown');
+  });
+});
+
+describe('OpenAIVisionProvider', () => {
+  it('asks the configured model about the image and returns its answer', async () => {
+    const create = jest.fn().mockResolvedValue({ choices: [{ message: { content: '{"validityFactor":1}' } }] });
+    const provider = new OpenAIVisionProvider(new OpenAIHelper({ chat: { completions: { create } } } as unknown as OpenAI, 'llava'));
+
+    const answer = await provider.analyzeImage({ base64Image: 'data:image/png;base64,', prompt: 'Analyze', maxTokens: 1000 });
+
+    expect(answer).toBe('{"validityFactor":1}');
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({ model: 'llava', max_tokens: 1000 }));
+  });
+});
+
+describe('StubVisionProvider', () => {
+  it('answers with the configured validity factor, whatever the image', async () => {
+    const answer = parseJSONResponse<{ validityFactor: number }>(await new StubVisionProvider(0.5).analyzeImage());
+
+    expect(answer).toMatchObject({ validityFactor: 0.5, storeName: 'Stub Store' });
+  });
+});
+
+describe('parseJSONResponse', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('parses an answer wrapped in a markdown code block', () => {
+    expect(parseJSONResponse('```json\n{"validityFactor":1}\n```')).toEqual({ validityFactor: 1 });
+  });
+
+  it('returns nothing when the answer is not JSON', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(parseJSONResponse('I can not see a receipt')).toBeUndefined();
+    expect(parseJSONResponse(null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,20 @@
+import { readFileSync } from 'fs';
+import { plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
+import { parse } from 'yaml';
+import { CatalogueDto } from '@/dtos/catalogue.dto';
+import { Catalogue } from '@/interfaces/catalogue.interface';
+
+/**
+ * Reads the product catalogue, JSON being a subset of YAML both formats are supported
+ */
+export const loadCatalogue = (path: string): Catalogue => {
+  const catalogue = plainToInstance(CatalogueDto, parse(readFileSync(path, 'utf8')));
+  const errors = validateSync(catalogue, { whitelist: true });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid product catalogue ${path}: ${errors.map(error => error.toString()).join(', ')}`);
+  }
+
+  return catalogue;
+};
@@ -596,3 +596,28 @@ export const EcoEarnABI = [
     type: 'function',
   },
 ] as const;
+
+/**
+ * Subset of the VeBetterDAO X2EarnRewardsPool ABI read by the backend
+ */
+export const X2EarnRewardsPoolABI = [
+  {
+    inputs: [
+      {
+        internalType: 'bytes32',
+        name: 'appId',
+        type: 'bytes32',
+      },
+    ],
+    name: 'availableFunds',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
@@ -1,6 +1,16 @@
+import { createHash } from 'crypto';
 import { isBase64 } from 'class-validator';
 
 export const isBase64Image = (image: string): boolean => {
   const regex = /^data:image\/[a-z]+;base64,/;
   return regex.test(image) && isBase64(image.split(',')[1]);
 };
+
+/**
+ * Computes the SHA-256 hash of the binary content of a base64 encoded image
+ * @param image Base64 image, with or without the data URL prefix
+ */
+export const hashImage = (image: string): string => {
+  const data = image.includes(',') ? image.split(',')[1] : image;
+  return createHash('sha256').update(Buffer.from(data, 'base64')).digest('hex');
+};
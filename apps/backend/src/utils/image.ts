@@ -0,0 +1,44 @@
+import sharp from 'sharp';
+
+// Width and height of the grid the image is reduced to, the resulting hash has HASH_SIZE * HASH_SIZE bits
+const HASH_SIZE = 8;
+
+/**
+ * Computes the difference hash (dHash) of a base64 encoded image.
+ * The image is reduced to a small greyscale grid and every bit of the hash tells whether a pixel is brighter than its right neighbour.
+ * Re-encoding, resizing or slightly editing an image keeps its hash close to the original one.
+ * @param image Base64 image, with or without the data URL prefix
+ * @returns The hash as a 16 characters hex string
+ */
+export const computeDifferenceHash = async (image: string): Promise<string> => {
+  const data = image.includes(',') ? image.split(',')[1] : image;
+
+  const pixels = await sharp(Buffer.from(data, 'base64'))
+    .greyscale()
+    .resize(HASH_SIZE + 1, HASH_SIZE, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = BigInt(0);
+  for (let row = 0; row < HASH_SIZE; row++) {
+    for (let col = 0; col < HASH_SIZE; col++) {
+      const offset = row * (HASH_SIZE + 1) + col;
+      hash = (hash << BigInt(1)) | BigInt(pixels[offset] > pixels[offset + 1] ? 1 : 0);
+    }
+  }
+
+  return hash.toString(16).padStart((HASH_SIZE * HASH_SIZE) / 4, '0');
+};
+
+/**
+ * Number of differing bits between two hex encoded hashes
+ */
+export const hammingDistance = (a: string, b: string): number => {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let distance = 0;
+  while (diff > BigInt(0)) {
+    distance += Number(diff & BigInt(1));
+    diff >>= BigInt(1);
+  }
+  return distance;
+};
@@ -1,5 +0,0 @@
-import { OpenAIHelper } from '@/services/helpers';
-
-export const initializeOpenAI = () => {
-  return new OpenAIHelper();
-};
@@ -0,0 +1,30 @@
+import { mnemonic } from '@vechain/sdk-core';
+import { KeystoreSignerProvider, PrivateKeySignerProvider, RemoteSignerProvider } from '@/services/helpers/signer';
+import { SignerProvider } from '@/interfaces/signer.interface';
+import {
+  ADMIN_ADDRESS,
+  ADMIN_KEYSTORE_PASSWORD,
+  ADMIN_KEYSTORE_PATH,
+  ADMIN_MNEMONIC,
+  ADMIN_PRIVATE_KEY,
+  ADMIN_SIGNER,
+  ADMIN_SIGNER_API_KEY,
+  ADMIN_SIGNER_URL,
+} from '@config';
+
+export const initializeSignerProvider = (): SignerProvider => {
+  switch (ADMIN_SIGNER) {
+    case 'env':
+      if (ADMIN_PRIVATE_KEY) return new PrivateKeySignerProvider(Buffer.from(ADMIN_PRIVATE_KEY.replace(/^0x/, ''), 'hex'));
+      if (!ADMIN_MNEMONIC) throw new Error('ADMIN_PRIVATE_KEY or ADMIN_MNEMONIC is required by the env signer');
+      return new PrivateKeySignerProvider(mnemonic.derivePrivateKey(ADMIN_MNEMONIC.split(' ')));
+    case 'keystore':
+      if (!ADMIN_KEYSTORE_PATH) throw new Error('ADMIN_KEYSTORE_PATH is required by the keystore signer');
+      return new KeystoreSignerProvider(ADMIN_KEYSTORE_PATH, ADMIN_KEYSTORE_PASSWORD);
+    case 'remote':
+      if (!ADMIN_SIGNER_URL || !ADMIN_ADDRESS) throw new Error('ADMIN_SIGNER_URL and ADMIN_ADDRESS are required by the remote signer');
+      return new RemoteSignerProvider({ url: ADMIN_SIGNER_URL, address: ADMIN_ADDRESS, apiKey: ADMIN_SIGNER_API_KEY || undefined });
+    default:
+      throw new Error(`Unknown admin signer: ${ADMIN_SIGNER}`);
+  }
+};
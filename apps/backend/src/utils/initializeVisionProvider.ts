@@ -0,0 +1,19 @@
+import { OpenAIHelper, OpenAICompatibleVisionProvider, OpenAIVisionProvider, StubVisionProvider } from '@/services/helpers';
+import { ReceiptVisionProvider } from '@/interfaces/vision.interface';
+import { VISION_API_KEY, VISION_BASE_URL, VISION_MODEL, VISION_PROVIDER, VISION_STUB_VALIDITY_FACTOR } from '@config';
+
+export const initializeVisionProvider = (): ReceiptVisionProvider => {
+  switch (VISION_PROVIDER) {
+    case 'openai':
+      return new OpenAIVisionProvider(new OpenAIHelper(undefined, VISION_MODEL || undefined));
+    case 'openai-compatible':
+      if (!VISION_BASE_URL || !VISION_MODEL) {
+        throw new Error('VISION_BASE_URL and VISION_MODEL are required by the openai-compatible vision provider');
+      }
+      return new OpenAICompatibleVisionProvider({ baseURL: VISION_BASE_URL, model: VISION_MODEL, apiKey: VISION_API_KEY });
+    case 'stub':
+      return new StubVisionProvider(VISION_STUB_VALIDITY_FACTOR);
+    default:
+      throw new Error(`Unknown vision provider: ${VISION_PROVIDER}`);
+  }
+};
@@ -11,8 +11,11 @@ if (!existsSync(logDir)) {
   mkdirSync(logDir);
 }
 
-// Define log format
-const logFormat = winston.format.printf(({ timestamp, level, message }) => `${timestamp} ${level}: ${message}`);
+// Define log format, metadata passed along the message is appended as JSON
+const logFormat = winston.format.printf(({ timestamp, level, message, ...meta }) => {
+  const fields = Object.keys(meta).length > 0 ? ` ${JSON.stringify(meta)}` : '';
+  return `${timestamp} ${level}: ${message}${fields}`;
+});
 
 /*
  * Log Level
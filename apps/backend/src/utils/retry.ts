@@ -0,0 +1,30 @@
+export interface RetryOptions {
+  retries: number;
+  /**
+   * Delay before the first retry in milliseconds, doubled after each attempt
+   */
+  delay: number;
+  /**
+   * Errors for which it returns false are thrown right away, all errors are retried by default
+   */
+  retryIf?: (error: Error) => boolean;
+  onRetry?: (error: Error, attempt: number) => void;
+}
+
+export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Calls `fn` until it succeeds or fails `retries + 1` times, backing off exponentially between attempts
+ */
+export const retry = async <T>(fn: () => Promise<T>, { retries, delay, retryIf, onRetry }: RetryOptions): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries || (retryIf && !retryIf(error))) throw error;
+
+      onRetry?.(error, attempt + 1);
+      await sleep(delay * 2 ** attempt);
+    }
+  }
+};
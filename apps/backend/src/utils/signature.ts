@@ -0,0 +1,11 @@
+/**
+ * Text participants sign to prove they own the address a receipt is submitted for.
+ * The frontend builds the exact same text, see `apps/frontend/src/util/signature.ts`.
+ */
+export const buildSubmissionMessage = (imageHash: string, nonce: string): string =>
+  `Submit a receipt to EcoEarn\nImage: ${imageHash}\nNonce: ${nonce}`;
+
+/**
+ * Text participants sign to log in, see `POST /auth/challenge`
+ */
+export const buildLoginMessage = (nonce: string): string => `Sign in to EcoEarn\nNonce: ${nonce}`;
@@ -1,14 +1,38 @@
-import { ADMIN_PRIVATE_KEY, NETWORK_URL } from '../config';
-import { HttpClient, ThorClient, VeChainPrivateKeySigner, VeChainProvider } from '@vechain/sdk-network';
+import { FEE_DELEGATOR_PRIVATE_KEY, FEE_DELEGATOR_URL, NETWORK_URL } from '../config';
+import { HttpClient, SignTransactionOptions, ThorClient } from '@vechain/sdk-network';
+import { clauseBuilder } from '@vechain/sdk-core';
 import { EcoEarnABI } from '@utils/const';
+import { Clause } from '@utils/model';
 import { ECO_SOL_ABI, config } from '@repo/config-contract';
+import { TransactionSigner } from '@/services/helpers/signer';
+import { initializeSignerProvider } from './initializeSignerProvider';
 
 export const thor = new ThorClient(new HttpClient(NETWORK_URL), {
   isPollingEnabled: false,
 });
 
-export const ecoEarnContract = thor.contracts.load(
-  config.CONTRACT_ADDRESS,
-  ECO_SOL_ABI,
-  new VeChainPrivateKeySigner(Buffer.from(ADMIN_PRIVATE_KEY), new VeChainProvider(thor)),
-);
+if (FEE_DELEGATOR_PRIVATE_KEY && FEE_DELEGATOR_URL) {
+  throw new Error('Set either FEE_DELEGATOR_PRIVATE_KEY or FEE_DELEGATOR_URL, not both');
+}
+
+/**
+ * VIP-191 fee delegation, the gas of the admin transactions being paid by the account of a local key or by a delegation service
+ */
+const delegator: SignTransactionOptions | undefined = FEE_DELEGATOR_PRIVATE_KEY
+  ? { delegatorPrivateKey: FEE_DELEGATOR_PRIVATE_KEY.replace(/^0x/, '') }
+  : FEE_DELEGATOR_URL
+  ? { delegatorUrl: FEE_DELEGATOR_URL }
+  : undefined;
+
+export const adminSigner = new TransactionSigner(thor, initializeSignerProvider(), delegator);
+
+// Transactions are built with `buildEcoEarnClause` and sent by the TransactionService, the contract is only read from
+export const ecoEarnContract = thor.contracts.load(config.CONTRACT_ADDRESS, ECO_SOL_ABI);
+
+/**
+ * Builds a clause calling a function of the EcoEarn contract, to be sent by the TransactionService
+ */
+export const buildEcoEarnClause = (functionName: string, args: unknown[]): Clause => {
+  const clause = clauseBuilder.functionInteraction(ecoEarnContract.address, ecoEarnContract.getFunctionFragment(functionName), args);
+  return { to: clause.to, value: String(clause.value), data: clause.data };
+};
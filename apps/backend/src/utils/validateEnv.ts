@@ -1,4 +1,4 @@
-import { makeValidator, cleanEnv, port, str } from 'envalid';
+import { makeValidator, bool, cleanEnv, num, port, str } from 'envalid';
 
 const openApiKey = makeValidator((apiKey: string) => {
   if (/^sk-proj-.{100,}$/.test(apiKey)) {
@@ -8,19 +8,81 @@ const openApiKey = makeValidator((apiKey: string) => {
   }
 });
 
+const origin = makeValidator((origin: string) => {
+  if (origin === '*') return origin;
+
+  try {
+    return new URL(origin).origin;
+  } catch {
+    throw new Error('ORIGIN must be * or the URL the frontend is served from, e.g. https://ecoearn.example');
+  }
+});
+
 export const ValidateEnv = () => {
   return cleanEnv(process.env, {
     NODE_ENV: str(),
     PORT: port({ devDefault: 3000 }),
-    ORIGIN: str({ devDefault: '*' }),
+    ORIGIN: origin({ devDefault: '*' }),
     LOG_FORMAT: str({ devDefault: 'prod' }),
     LOG_DIR: str({ devDefault: '../logs' }),
     REWARD_AMOUNT: str({ devDefault: '1' }),
-    ADMIN_MNEMONIC: str(),
+    BALANCE_CACHE_TTL: num({ default: 30 }),
+    REWARD_CATALOGUE_PATH: str({ default: 'catalogue.json' }),
+    MAX_POINTS_PER_SUBMISSION: num({ default: 100 }),
+    PROOF_IMAGE_BASE_URL: str({ default: '' }),
+    REWARD_BATCH_WINDOW: num({ default: 5 }),
+    REWARD_BATCH_MAX_SIZE: num({ default: 20 }),
+    ADMIN_SIGNER: str({ choices: ['env', 'keystore', 'remote'], default: 'env' }),
+    ADMIN_MNEMONIC: str({ default: '' }),
+    ADMIN_PRIVATE_KEY: str({ default: '' }),
+    ADMIN_KEYSTORE_PATH: str({ default: '' }),
+    ADMIN_KEYSTORE_PASSWORD: str({ default: '' }),
+    ADMIN_SIGNER_URL: str({ default: '' }),
+    ADMIN_SIGNER_API_KEY: str({ default: '' }),
     NETWORK_URL: str({ devDefault: 'http://localhost:8669' }),
     NETWORK_TYPE: str({ devDefault: 'solo' }),
-    OPENAI_API_KEY: openApiKey(),
+    FEE_DELEGATOR_PRIVATE_KEY: str({ default: '' }),
+    FEE_DELEGATOR_URL: str({ default: '' }),
+    SOLO_DELEGATOR_ENABLED: bool({ default: false }),
+    TX_MAX_RETRIES: num({ default: 3 }),
+    TX_RETRY_DELAY: num({ default: 2 }),
+    TX_GAS_PADDING: num({ default: 0.2 }),
+    TX_EXPIRATION: num({ default: 32 }),
+    VISION_PROVIDER: str({ choices: ['openai', 'openai-compatible', 'stub'], default: 'openai' }),
+    VISION_MODEL: str({ default: '' }),
+    VISION_BASE_URL: str({ default: '' }),
+    VISION_API_KEY: str({ default: '' }),
+    VISION_STUB_VALIDITY_FACTOR: num({ default: 1 }),
+    VISION_MAX_RETRIES: num({ default: 2 }),
+    // The OpenAI key is only needed when OpenAI is the vision provider
+    OPENAI_API_KEY: [undefined, 'openai'].includes(process.env.VISION_PROVIDER) ? openApiKey() : str({ default: '' }),
+    INDEXER_START_BLOCK: num({ default: 0 }),
+    INDEXER_CONFIRMATIONS: num({ default: 12 }),
+    INDEXER_INTERVAL: num({ default: 10 }),
+    INDEXER_BATCH_SIZE: num({ default: 100000 }),
+    CYCLE_SCHEDULER_ENABLED: bool({ default: false }),
+    CYCLE_SCHEDULER_INTERVAL: num({ default: 30 }),
+    CYCLE_SCHEDULER_MAX_RETRIES: num({ default: 3 }),
+    CYCLE_REWARDS_AMOUNT: str({ default: '' }),
+    CYCLE_WITHDRAW_REWARDS: bool({ default: false }),
+    SECRET_KEY: str({ devDefault: 'ecoearn-development-secret' }),
+    JWT_EXPIRES_IN: num({ default: 3600 }),
+    COOKIE_SAME_SITE: str({ choices: ['Strict', 'Lax', 'None'], default: 'Lax' }),
+    NONCE_TTL: num({ default: 300 }),
+    NONCE_MAX_PER_ADDRESS: num({ default: 5 }),
+    NONCE_MAX_OUTSTANDING: num({ default: 10000 }),
+    CERTIFICATE_MAX_AGE: num({ default: 300 }),
+    SUBMISSION_QUEUE_CONCURRENCY: num({ default: 1 }),
     MAX_FILE_SIZE: str({ devDefault: '10mb' }),
     ADMIN_ADDRESS: str({ default: '' }),
+    DATABASE_DRIVER: str({ choices: ['sqlite', 'memory'], default: 'sqlite' }),
+    DATABASE_PATH: str({ default: 'data/ecoearn.sqlite' }),
+    DUPLICATE_IMAGE_MAX_DISTANCE: num({ default: 5 }),
+    MAX_SUBMISSIONS_PER_DEVICE: num({ default: 0 }),
+    MAX_SUBMISSIONS_PER_DEVICE_PER_CYCLE: num({ default: 10 }),
+    MAX_ADDRESSES_PER_DEVICE: num({ default: 3 }),
+    RECEIPT_MAX_AGE_DAYS: num({ default: 30 }),
+    RECEIPT_DATE_IN_CYCLE: bool({ default: false }),
+    STORE_BLOCKLIST: str({ default: '' }),
   });
 };
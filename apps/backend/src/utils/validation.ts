@@ -0,0 +1,11 @@
+import { ValidationError } from 'class-validator';
+
+/**
+ * Messages of the failed constraints, nested objects included. The errors of a nested object are only found in the
+ * `children` of its property, which has no `constraints` of its own, so their messages are prefixed with their path.
+ */
+export const getValidationMessages = (errors: ValidationError[], path = ''): string[] =>
+  errors.flatMap(error => [
+    ...Object.values(error.constraints ?? {}).map(message => `${path}${message}`),
+    ...getValidationMessages(error.children ?? [], `${path}${error.property}.`),
+  ]);
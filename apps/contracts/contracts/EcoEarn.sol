@@ -38,9 +38,21 @@ import '@openzeppelin/contracts/utils/Strings.sol';
  * In testnet you can generate the APP_ID by using the VeBetterDAO sandbox at https://dev.testnet.governance.vebetterdao.org/.
  * This contract can be initially deployed without this information and DEFAULT_ADMIN_ROLE can update it later through {EcoEarn-setAppId}.
  *
+ * @notice Permissions are split between three roles, so the key of the backend rewarding submissions cannot move funds or change settings:
+ * - VALIDATOR_ROLE registers valid submissions, rewarding participants
+ * - CYCLE_MANAGER_ROLE starts cycles, allocates their rewards and withdraws the rewards left in finished cycles
+ * - DEFAULT_ADMIN_ROLE changes settings and grants or revokes every role
+ * The `_admin` given to the constructor holds the three roles, it is expected to grant the first two to dedicated accounts then renounce them.
+ *
  * @notice This contract must me set as a `rewardDistributor` inside the X2EarnApps contract to be able to send rewards to users and withdraw.
  */
 contract EcoEarn is AccessControl {
+    // Role of the accounts allowed to register valid submissions
+    bytes32 public constant VALIDATOR_ROLE = keccak256('VALIDATOR_ROLE');
+
+    // Role of the accounts allowed to start cycles, set their rewards and withdraw the rewards left once they are over
+    bytes32 public constant CYCLE_MANAGER_ROLE = keccak256('CYCLE_MANAGER_ROLE');
+
     // The X2EarnRewardsPool contract used to distribute rewards
     IX2EarnRewardsPool public x2EarnRewardsPoolContract;
 
@@ -94,12 +106,14 @@ contract EcoEarn is AccessControl {
         nextCycle = 1;
         appId = _appId;
         _grantRole(DEFAULT_ADMIN_ROLE, _admin);
+        _grantRole(VALIDATOR_ROLE, _admin);
+        _grantRole(CYCLE_MANAGER_ROLE, _admin);
     }
 
     /**
      * @dev Function to trigger a new cycle
      */
-    function triggerCycle() public onlyRole(DEFAULT_ADMIN_ROLE) {
+    function triggerCycle() public onlyRole(CYCLE_MANAGER_ROLE) {
         lastCycleStartBlock = block.number; // Update the start block to the current block
         nextCycle++;
         emit CycleStarted(lastCycleStartBlock);
@@ -110,18 +124,8 @@ contract EcoEarn is AccessControl {
      * @param participant Address of the participant
      * @param amount Amount of rewards to be given for the submission
      */
-    function registerValidSubmission(address participant, uint256 amount) external onlyRole(DEFAULT_ADMIN_ROLE) {
-        require(amount > 0, 'EcoEarn: Amount must be greater than 0');
-        require(submissions[getCurrentCycle()][participant] < maxSubmissionsPerCycle, 'EcoEarn: Max submissions per user reached');
-        require(rewardsLeft[getCurrentCycle()] >= amount, 'EcoEarn: Not enough rewards left');
-        require(block.number < getNextCycleBlock(), 'EcoEarn: Cycle is over');
-
-        // Register the submission
-        submissions[getCurrentCycle()][participant]++;
-        // Increment the total submissions count
-        totalSubmissions[getCurrentCycle()]++;
-        // Decrease the rewards left
-        rewardsLeft[getCurrentCycle()] -= amount;
+    function registerValidSubmission(address participant, uint256 amount) external onlyRole(VALIDATOR_ROLE) {
+        _registerSubmission(participant, amount);
 
         // Transfer the reward to the participant, will revert if the transfer fails
         // The last parameter is the proof of the sustainable action the user is rewarded for.
@@ -132,11 +136,38 @@ contract EcoEarn is AccessControl {
         emit Submission(participant, amount);
     }
 
+    /**
+     * @dev Registers a valid submission, attaching the proof of the sustainable action to the reward
+     * @param participant Address of the participant
+     * @param amount Amount of rewards to be given for the submission
+     * @param proofTypes Types of the proofs of the action, e.g. image or link
+     * @param proofValues Values of the proofs, in the same order as `proofTypes`
+     * @param impactCodes Codes of the impacts of the action, e.g. carbon or plastic
+     * @param impactValues Values of the impacts, in the same order as `impactCodes`
+     * @param description Description of the action
+     */
+    function registerValidSubmissionWithProof(
+        address participant,
+        uint256 amount,
+        string[] memory proofTypes,
+        string[] memory proofValues,
+        string[] memory impactCodes,
+        uint256[] memory impactValues,
+        string memory description
+    ) external onlyRole(VALIDATOR_ROLE) {
+        _registerSubmission(participant, amount);
+
+        // Transfer the reward to the participant, will revert if the transfer fails or the proof is malformed
+        x2EarnRewardsPoolContract.distributeRewardWithProof(appId, amount, participant, proofTypes, proofValues, impactCodes, impactValues, description);
+
+        emit Submission(participant, amount);
+    }
+
     /**
      * @dev Set the allocation for the next cycle
      * @param amount Amount of tokens to be allocated
      */
-    function setRewardsAmount(uint256 amount) public onlyRole(DEFAULT_ADMIN_ROLE) {
+    function setRewardsAmount(uint256 amount) public onlyRole(CYCLE_MANAGER_ROLE) {
         require(amount <= x2EarnRewardsPoolContract.availableFunds(appId), 'EcoEarn: Insufficient balance on the X2EarnRewardsPool contract');
         rewards[nextCycle] = amount;
         rewardsLeft[nextCycle] = amount;
@@ -145,9 +176,10 @@ contract EcoEarn is AccessControl {
 
     /**
      * @dev Withdraws remaining rewards of a specific cycle
+     * The X2EarnRewardsPool sends them to the team wallet of the app, the caller cannot choose where the funds go.
      * @param cycle The cycle number to withdraw rewards from
      */
-    function withdrawRewards(uint256 cycle) public onlyRole(DEFAULT_ADMIN_ROLE) {
+    function withdrawRewards(uint256 cycle) public onlyRole(CYCLE_MANAGER_ROLE) {
         require(rewards[cycle] > 0, 'EcoEarn: No rewards to withdraw');
         require(cycle < getCurrentCycle(), 'EcoEarn: Cycle is not over');
         uint256 amount = rewardsLeft[cycle];
@@ -157,6 +189,25 @@ contract EcoEarn is AccessControl {
         x2EarnRewardsPoolContract.withdraw(amount, appId, string.concat('Withdraws remaining rewards of cycle nr.', Strings.toString(cycle)));
     }
 
+    /**
+     * @dev Checks a submission can be rewarded and accounts for it in the current cycle
+     * @param participant Address of the participant
+     * @param amount Amount of rewards to be given for the submission
+     */
+    function _registerSubmission(address participant, uint256 amount) internal {
+        require(amount > 0, 'EcoEarn: Amount must be greater than 0');
+        require(submissions[getCurrentCycle()][participant] < maxSubmissionsPerCycle, 'EcoEarn: Max submissions per user reached');
+        require(rewardsLeft[getCurrentCycle()] >= amount, 'EcoEarn: Not enough rewards left');
+        require(block.number < getNextCycleBlock(), 'EcoEarn: Cycle is over');
+
+        // Register the submission
+        submissions[getCurrentCycle()][participant]++;
+        // Increment the total submissions count
+        totalSubmissions[getCurrentCycle()]++;
+        // Decrease the rewards left
+        rewardsLeft[getCurrentCycle()] -= amount;
+    }
+
     // ---------------- SETTERS ---------------- //
 
     /**
@@ -172,7 +223,7 @@ contract EcoEarn is AccessControl {
      * @dev Sets the next cycle number
      * @param _nextCycle New next cycle number
      */
-    function setNextCycle(uint256 _nextCycle) external onlyRole(DEFAULT_ADMIN_ROLE) {
+    function setNextCycle(uint256 _nextCycle) external onlyRole(CYCLE_MANAGER_ROLE) {
         nextCycle = _nextCycle;
     }
 
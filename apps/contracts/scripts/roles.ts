@@ -0,0 +1,68 @@
+import { ethers, network } from 'hardhat';
+import { config } from '@repo/config-contract';
+
+// Roles of the EcoEarn contract, by the name given to the ROLE variable
+const ROLES = {
+    validator: 'VALIDATOR_ROLE',
+    'cycle-manager': 'CYCLE_MANAGER_ROLE',
+    admin: 'DEFAULT_ADMIN_ROLE',
+} as const;
+
+type RoleName = keyof typeof ROLES;
+
+/**
+ * Manages the roles of the deployed EcoEarn contract with the first account of the network, which must hold DEFAULT_ADMIN_ROLE
+ * to grant or revoke roles. Hardhat scripts take no arguments, they are read from the environment:
+ * - ACTION: `list` (default) the roles held by ACCOUNT, `grant` or `revoke` ROLE to ACCOUNT, or `renounce` ROLE for the first account
+ * - ROLE: `validator`, `cycle-manager` or `admin`
+ * - ACCOUNT: the address the roles are listed, granted or revoked for, defaults to the first account
+ */
+export async function manageRoles() {
+    const signer = (await ethers.getSigners())[0];
+    const ecoEarn = await ethers.getContractAt('EcoEarn', config.CONTRACT_ADDRESS, signer);
+
+    const action = process.env.ACTION ?? 'list';
+    const account = process.env.ACCOUNT ?? signer.address;
+    console.log(`Managing the roles of EcoEarn ${config.CONTRACT_ADDRESS} on ${network.name} with wallet ${signer.address}...`);
+
+    if (action === 'list') {
+        for (const [name, role] of Object.entries(ROLES)) {
+            const hasRole = await ecoEarn.hasRole(await ecoEarn[role](), account);
+            console.log(`${account} ${hasRole ? 'holds' : 'does not hold'} the ${name} role`);
+        }
+        return;
+    }
+
+    const name = process.env.ROLE as RoleName;
+    if (!(name in ROLES)) throw new Error(`ROLE must be one of ${Object.keys(ROLES).join(', ')}`);
+    const role = await ecoEarn[ROLES[name]]();
+
+    let result;
+    switch (action) {
+        case 'grant':
+            result = await (await ecoEarn.grantRole(role, account)).wait();
+            break;
+        case 'revoke':
+            result = await (await ecoEarn.revokeRole(role, account)).wait();
+            break;
+        case 'renounce':
+            if (name === 'admin') console.warn('Once renounced by every account, roles can no longer be granted or revoked');
+            result = await (await ecoEarn.renounceRole(role, signer.address)).wait();
+            break;
+        default:
+            throw new Error('ACTION must be one of list, grant, revoke, renounce');
+    }
+
+    if (result == null || result.status !== 1) {
+        throw new Error(`Failed to ${action} the ${name} role`);
+    }
+
+    console.log(`Done: ${action} the ${name} role for ${action === 'renounce' ? signer.address : account}`);
+}
+
+manageRoles()
+    .then(() => process.exit(0))
+    .catch(error => {
+        console.error(error);
+        process.exit(1);
+    });
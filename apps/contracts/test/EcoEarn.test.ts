@@ -1,4 +1,4 @@
-import { MAX_SUBMISSIONS_PER_CYCLE, getAndDeployContracts, receiveAllocations, waitForNextCycle } from './helpers';
+import { MAX_SUBMISSIONS_PER_CYCLE, catchRevert, getAndDeployContracts, receiveAllocations, waitForNextCycle } from './helpers';
 import { describe } from 'mocha';
 import { expect } from 'chai';
 import { ethers } from 'hardhat';
@@ -132,6 +132,258 @@ describe('ecoearn', () => {
         });
     });
 
+    describe('Proofs', () => {
+        it('Should attach the proof of the sustainable action to the reward', async () => {
+            const { ecoearn, token, owner, admin, account3, x2EarnRewardsPool, appId } = await getAndDeployContracts();
+
+            await receiveAllocations(ecoearn, token, owner, admin, '6700', x2EarnRewardsPool, appId);
+
+            await waitForNextCycle(ecoearn);
+
+            await ecoearn.connect(admin).triggerCycle();
+
+            const imageHash = '0x9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08';
+            const expectedProof = `{"version": 2,"description": "Receipt for a reusable bottle","proof": {"image":"${imageHash}"},"impact": {"plastic":1}}`;
+
+            await expect(
+                ecoearn
+                    .connect(admin)
+                    .registerValidSubmissionWithProof(
+                        account3.address,
+                        ethers.parseEther('1'),
+                        ['image'],
+                        [imageHash],
+                        ['plastic'],
+                        [1],
+                        'Receipt for a reusable bottle',
+                    ),
+            )
+                .to.emit(x2EarnRewardsPool, 'RewardDistributed')
+                .withArgs(ethers.parseEther('1'), appId, account3.address, expectedProof, await ecoearn.getAddress());
+
+            // The emitted proof must be valid JSON for explorers and the VeBetterDAO dashboards to read it
+            const receipt = await (
+                await ecoearn
+                    .connect(admin)
+                    .registerValidSubmissionWithProof(
+                        account3.address,
+                        ethers.parseEther('1'),
+                        ['image'],
+                        [imageHash],
+                        ['plastic'],
+                        [1],
+                        'Receipt for a reusable bottle',
+                    )
+            ).wait();
+            const event = receipt?.logs.map(log => x2EarnRewardsPool.interface.parseLog(log)).find(log => log?.name === 'RewardDistributed');
+
+            expect(JSON.parse(event?.args.proof)).to.deep.equal({
+                version: 2,
+                description: 'Receipt for a reusable bottle',
+                proof: { image: imageHash },
+                impact: { plastic: 1 },
+            });
+
+            expect(await token.balanceOf(account3.address)).to.equal(ethers.parseEther('2'));
+            expect(await ecoearn.submissions(await ecoearn.getCurrentCycle(), account3.address)).to.equal(2);
+            expect(await ecoearn.rewardsLeft(1)).to.equal(ethers.parseEther('6698'));
+        });
+
+        it('Should emit several proofs and impacts in the order they were given', async () => {
+            const { ecoearn, token, owner, admin, account3, x2EarnRewardsPool, appId } = await getAndDeployContracts();
+
+            await receiveAllocations(ecoearn, token, owner, admin, '6700', x2EarnRewardsPool, appId);
+
+            await waitForNextCycle(ecoearn);
+
+            await ecoearn.connect(admin).triggerCycle();
+
+            const expectedProof =
+                '{"version": 2,"description": "Second hand jacket","proof": {"image":"0x01","link":"https://example.com/receipt.png"},"impact": {"carbon":1500,"textile":1}}';
+
+            await expect(
+                ecoearn
+                    .connect(admin)
+                    .registerValidSubmissionWithProof(
+                        account3.address,
+                        ethers.parseEther('1'),
+                        ['image', 'link'],
+                        ['0x01', 'https://example.com/receipt.png'],
+                        ['carbon', 'textile'],
+                        [1500, 1],
+                        'Second hand jacket',
+                    ),
+            )
+                .to.emit(x2EarnRewardsPool, 'RewardDistributed')
+                .withArgs(ethers.parseEther('1'), appId, account3.address, expectedProof, await ecoearn.getAddress());
+        });
+
+        it('Should emit an empty proof when rewarding without one', async () => {
+            const { ecoearn, token, owner, admin, account3, x2EarnRewardsPool, appId } = await getAndDeployContracts();
+
+            await receiveAllocations(ecoearn, token, owner, admin, '6700', x2EarnRewardsPool, appId);
+
+            await waitForNextCycle(ecoearn);
+
+            await ecoearn.connect(admin).triggerCycle();
+
+            await expect(ecoearn.connect(admin).registerValidSubmission(account3.address, ethers.parseEther('1')))
+                .to.emit(x2EarnRewardsPool, 'RewardDistributed')
+                .withArgs(ethers.parseEther('1'), appId, account3.address, '', await ecoearn.getAddress());
+        });
+
+        it('Should not register the submission when the proof is malformed', async () => {
+            const { ecoearn, token, owner, admin, account3, x2EarnRewardsPool, appId } = await getAndDeployContracts();
+
+            await receiveAllocations(ecoearn, token, owner, admin, '6700', x2EarnRewardsPool, appId);
+
+            await waitForNextCycle(ecoearn);
+
+            await ecoearn.connect(admin).triggerCycle();
+
+            await catchRevert(
+                ecoearn
+                    .connect(admin)
+                    .registerValidSubmissionWithProof(account3.address, ethers.parseEther('1'), ['image', 'link'], ['0x01'], [], [], ''),
+            );
+
+            expect(await token.balanceOf(account3.address)).to.equal(ethers.parseEther('0'));
+            expect(await ecoearn.submissions(await ecoearn.getCurrentCycle(), account3.address)).to.equal(0);
+        });
+
+        it('Should only let a validator register submissions with a proof', async () => {
+            const { ecoearn, token, owner, admin, account3, x2EarnRewardsPool, appId } = await getAndDeployContracts();
+
+            await receiveAllocations(ecoearn, token, owner, admin, '6700', x2EarnRewardsPool, appId);
+
+            await waitForNextCycle(ecoearn);
+
+            await ecoearn.connect(admin).triggerCycle();
+
+            await catchRevert(
+                ecoearn.connect(account3).registerValidSubmissionWithProof(account3.address, ethers.parseEther('1'), ['image'], ['0x01'], [], [], ''),
+            );
+        });
+    });
+
+    describe('Roles', () => {
+        it('Should grant every role to the admin on deployment', async () => {
+            const { ecoearn, admin, owner } = await getAndDeployContracts();
+
+            expect(await ecoearn.hasRole(await ecoearn.DEFAULT_ADMIN_ROLE(), admin.address)).to.equal(true);
+            expect(await ecoearn.hasRole(await ecoearn.VALIDATOR_ROLE(), admin.address)).to.equal(true);
+            expect(await ecoearn.hasRole(await ecoearn.CYCLE_MANAGER_ROLE(), admin.address)).to.equal(true);
+
+            expect(await ecoearn.hasRole(await ecoearn.VALIDATOR_ROLE(), owner.address)).to.equal(false);
+        });
+
+        it('Should let a validator register submissions only', async () => {
+            const { ecoearn, token, owner, admin, account3, account4, x2EarnRewardsPool, appId } = await getAndDeployContracts();
+
+            await ecoearn.connect(admin).grantRole(await ecoearn.VALIDATOR_ROLE(), account3.address);
+
+            await receiveAllocations(ecoearn, token, owner, admin, '6700', x2EarnRewardsPool, appId);
+
+            await waitForNextCycle(ecoearn);
+
+            await ecoearn.connect(admin).triggerCycle();
+
+            await ecoearn.connect(account3).registerValidSubmission(account4.address, ethers.parseEther('1'));
+            await ecoearn
+                .connect(account3)
+                .registerValidSubmissionWithProof(account4.address, ethers.parseEther('1'), ['image'], ['0x01'], [], [], '');
+
+            expect(await token.balanceOf(account4.address)).to.equal(ethers.parseEther('2'));
+
+            await catchRevert(ecoearn.connect(account3).triggerCycle());
+            await catchRevert(ecoearn.connect(account3).setRewardsAmount(ethers.parseEther('1')));
+            await catchRevert(ecoearn.connect(account3).setNextCycle(5));
+            await catchRevert(ecoearn.connect(account3).setAppId(ethers.ZeroHash));
+            await catchRevert(ecoearn.connect(account3).setMaxSubmissionsPerCycle(10));
+            await catchRevert(ecoearn.connect(account3).grantRole(await ecoearn.VALIDATOR_ROLE(), account4.address));
+
+            await waitForNextCycle(ecoearn);
+
+            await ecoearn.connect(admin).triggerCycle();
+
+            await catchRevert(ecoearn.connect(account3).withdrawRewards(1));
+        });
+
+        it('Should let a cycle manager start cycles, set their rewards and withdraw the rewards left only', async () => {
+            const { ecoearn, token, owner, admin, account3, account4, x2EarnRewardsPool, appId } = await getAndDeployContracts();
+
+            await ecoearn.connect(admin).grantRole(await ecoearn.CYCLE_MANAGER_ROLE(), account3.address);
+
+            await token.connect(owner).mint(admin, ethers.parseEther('6700'));
+            await token.connect(admin).approve(await x2EarnRewardsPool.getAddress(), ethers.parseEther('6700'));
+            await x2EarnRewardsPool.connect(admin).deposit(ethers.parseEther('6700'), appId);
+
+            await ecoearn.connect(account3).setRewardsAmount(ethers.parseEther('6700'));
+
+            await waitForNextCycle(ecoearn);
+
+            await ecoearn.connect(account3).triggerCycle();
+
+            expect(await ecoearn.getCurrentCycle()).to.equal(1);
+            expect(await ecoearn.rewardsLeft(1)).to.equal(ethers.parseEther('6700'));
+
+            await catchRevert(ecoearn.connect(account3).registerValidSubmission(account4.address, ethers.parseEther('1')));
+            await catchRevert(ecoearn.connect(account3).setAppId(ethers.ZeroHash));
+            await catchRevert(ecoearn.connect(account3).setMaxSubmissionsPerCycle(10));
+
+            await waitForNextCycle(ecoearn);
+
+            await ecoearn.connect(account3).triggerCycle();
+
+            await ecoearn.connect(account3).withdrawRewards(1);
+
+            // The rewards left go back to the team wallet of the app, not to the cycle manager
+            expect(await ecoearn.rewardsLeft(1)).to.equal(0);
+            expect(await token.balanceOf(account3.address)).to.equal(0);
+        });
+
+        it('Should not let a revoked validator register submissions', async () => {
+            const { ecoearn, token, owner, admin, account3, account4, x2EarnRewardsPool, appId } = await getAndDeployContracts();
+
+            await ecoearn.connect(admin).grantRole(await ecoearn.VALIDATOR_ROLE(), account3.address);
+
+            await receiveAllocations(ecoearn, token, owner, admin, '6700', x2EarnRewardsPool, appId);
+
+            await waitForNextCycle(ecoearn);
+
+            await ecoearn.connect(admin).triggerCycle();
+
+            await ecoearn.connect(account3).registerValidSubmission(account4.address, ethers.parseEther('1'));
+
+            await ecoearn.connect(admin).revokeRole(await ecoearn.VALIDATOR_ROLE(), account3.address);
+
+            await catchRevert(ecoearn.connect(account3).registerValidSubmission(account4.address, ethers.parseEther('1')));
+
+            expect(await ecoearn.submissions(await ecoearn.getCurrentCycle(), account4.address)).to.equal(1);
+        });
+
+        it('Should not let the admin register submissions once it renounced the validator role', async () => {
+            const { ecoearn, token, owner, admin, account4, x2EarnRewardsPool, appId } = await getAndDeployContracts();
+
+            await receiveAllocations(ecoearn, token, owner, admin, '6700', x2EarnRewardsPool, appId);
+
+            await waitForNextCycle(ecoearn);
+
+            await ecoearn.connect(admin).triggerCycle();
+
+            await ecoearn.connect(admin).renounceRole(await ecoearn.VALIDATOR_ROLE(), admin.address);
+
+            await catchRevert(ecoearn.connect(admin).registerValidSubmission(account4.address, ethers.parseEther('1')));
+
+            // The admin can still grant the role back
+            await ecoearn.connect(admin).grantRole(await ecoearn.VALIDATOR_ROLE(), admin.address);
+
+            await ecoearn.connect(admin).registerValidSubmission(account4.address, ethers.parseEther('1'));
+
+            expect(await token.balanceOf(account4.address)).to.equal(ethers.parseEther('1'));
+        });
+    });
+
     describe('Withdrawals', () => {
         it("Should be able to withdraw if user's did not claim all their rewards", async () => {
             const { ecoearn, token, owner, admin, account3, x2EarnRewardsPool, appId } = await getAndDeployContracts();
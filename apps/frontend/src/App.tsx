@@ -1,11 +1,15 @@
 import { DAppKitProvider } from "@vechain/dapp-kit-react";
-import { ChakraProvider, Container, Flex } from "@chakra-ui/react";
+import { ChakraProvider, Container, Flex, Stack } from "@chakra-ui/react";
 import {
+  ActivityModal,
+  CycleCard,
   Dropzone,
   Footer,
   InfoCard,
   Instructions,
+  Leaderboard,
   Navbar,
+  StatusBanner,
   SubmissionModal,
 } from "./components";
 import { lightTheme } from "./theme";
@@ -32,15 +36,25 @@ function App() {
             justifyContent={"flex-start"}
             flexDirection={"column"}
           >
-            <InfoCard />
+            <StatusBanner />
+            <Stack
+              w={"full"}
+              direction={{ base: "column", md: "row" }}
+              spacing={3}
+            >
+              <InfoCard />
+              <CycleCard />
+            </Stack>
             <Instructions />
             <Dropzone />
+            <Leaderboard />
           </Container>
         </Flex>
         <Footer />
 
         {/* MODALS  */}
         <SubmissionModal />
+        <ActivityModal />
       </DAppKitProvider>
     </ChakraProvider>
   );
@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Badge,
+  FormControl,
+  FormLabel,
+  HStack,
+  Link,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalHeader,
+  ModalOverlay,
+  Spinner,
+  Switch,
+  Stat,
+  StatHelpText,
+  StatLabel,
+  StatNumber,
+  Table,
+  TableContainer,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  VStack,
+} from "@chakra-ui/react";
+import { useWallet } from "@vechain/dapp-kit-react";
+import { useActivityDisclosure, useSession } from "../hooks";
+import {
+  SubmissionStatus,
+  UserActivity,
+  getUserActivity,
+  updateSettings,
+} from "../networking";
+import { explorerURL } from "../config";
+
+const STATUS_COLORS: Record<SubmissionStatus, string> = {
+  queued: "gray",
+  validating: "blue",
+  rewarding: "blue",
+  rewarded: "green",
+  rejected: "orange",
+  failed: "red",
+};
+
+/**
+ * Past uploads of the connected wallet, with their outcome and the submissions left in the cycle
+ */
+export const ActivityModal = () => {
+  const { account } = useWallet();
+  const { isOpen, onClose } = useActivityDisclosure();
+  const [activity, setActivity] = useState<UserActivity>();
+  const [error, setError] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const { withSession } = useSession();
+
+  useEffect(() => {
+    if (!isOpen || !account) return;
+
+    setActivity(undefined);
+    setError(false);
+    getUserActivity(account)
+      .then(setActivity)
+      .catch(() => setError(true));
+  }, [isOpen, account]);
+
+  const toggleLeaderboard = useCallback(
+    async (visible: boolean) => {
+      setIsSaving(true);
+      try {
+        const { hiddenFromLeaderboard } = await withSession(() =>
+          updateSettings({ hiddenFromLeaderboard: !visible }),
+        );
+        setActivity(
+          (activity) => activity && { ...activity, hiddenFromLeaderboard },
+        );
+      } catch (error) {
+        alert("Error updating your settings");
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [withSession],
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} isCentered={true} size={"3xl"}>
+      <ModalOverlay />
+      <ModalContent borderRadius={16}>
+        <ModalHeader>My activity</ModalHeader>
+        <ModalCloseButton />
+        <ModalBody pb={6}>
+          {error && <Text>Your activity could not be loaded.</Text>}
+          {!error && !activity && <Spinner />}
+          {activity && (
+            <VStack align={"stretch"} spacing={6}>
+              <HStack>
+                <Stat>
+                  <StatLabel>Submissions left</StatLabel>
+                  <StatNumber>{activity.submissionsLeft}</StatNumber>
+                  <StatHelpText>
+                    {activity.submissionsThisCycle} of{" "}
+                    {activity.maxSubmissionsPerCycle} used in cycle{" "}
+                    {activity.cycle}
+                  </StatHelpText>
+                </Stat>
+                <Stat>
+                  <StatLabel>Total earned</StatLabel>
+                  <StatNumber>{activity.totalEarned} B3TR</StatNumber>
+                  <StatHelpText>
+                    {activity.rewards.length} rewarded receipts
+                  </StatHelpText>
+                </Stat>
+              </HStack>
+              <FormControl display={"flex"} alignItems={"center"}>
+                <Switch
+                  id={"leaderboard-visibility"}
+                  isChecked={!activity.hiddenFromLeaderboard}
+                  isDisabled={isSaving}
+                  onChange={(event) => toggleLeaderboard(event.target.checked)}
+                  colorScheme={"primary"}
+                  mr={3}
+                />
+                <FormLabel htmlFor={"leaderboard-visibility"} mb={0}>
+                  Show me on the leaderboard
+                </FormLabel>
+              </FormControl>
+              {activity.submissions.length === 0 ? (
+                <Text>You have not uploaded any receipt yet.</Text>
+              ) : (
+                <TableContainer>
+                  <Table size={"sm"}>
+                    <Thead>
+                      <Tr>
+                        <Th>Date</Th>
+                        <Th>Status</Th>
+                        <Th isNumeric>Reward</Th>
+                        <Th>Transaction</Th>
+                      </Tr>
+                    </Thead>
+                    <Tbody>
+                      {activity.submissions.map((submission) => (
+                        <Tr key={submission.id}>
+                          <Td>
+                            {new Date(submission.timestamp).toLocaleString()}
+                          </Td>
+                          <Td>
+                            <Badge
+                              colorScheme={STATUS_COLORS[submission.status]}
+                            >
+                              {submission.status}
+                            </Badge>
+                            {submission.reason && (
+                              <Text
+                                fontSize={12}
+                                color={"gray.500"}
+                                whiteSpace={"normal"}
+                              >
+                                {submission.reason}
+                              </Text>
+                            )}
+                          </Td>
+                          <Td isNumeric>
+                            {submission.reward
+                              ? `${submission.reward} B3TR`
+                              : "-"}
+                          </Td>
+                          <Td>
+                            {submission.txId ? (
+                              <Link
+                                isExternal
+                                href={`${explorerURL}/transactions/${submission.txId}`}
+                                color={"primary.500"}
+                              >
+                                {submission.txId.slice(0, 10)}...
+                              </Link>
+                            ) : (
+                              "-"
+                            )}
+                          </Td>
+                        </Tr>
+                      ))}
+                    </Tbody>
+                  </Table>
+                </TableContainer>
+              )}
+            </VStack>
+          )}
+        </ModalBody>
+      </ModalContent>
+    </Modal>
+  );
+};
@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react";
+import {
+  Box,
+  Card,
+  HStack,
+  Progress,
+  Skeleton,
+  Stat,
+  StatLabel,
+  StatNumber,
+  Text,
+  VStack,
+} from "@chakra-ui/react";
+import { CycleStats, getCurrentCycle } from "../networking";
+
+const REFRESH_INTERVAL = 60000;
+
+const formatCountdown = (milliseconds: number) => {
+  const seconds = Math.max(Math.floor(milliseconds / 1000), 0);
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  return days > 0
+    ? `${days}d ${hours}h ${minutes}m`
+    : `${hours}h ${minutes}m ${seconds % 60}s`;
+};
+
+/**
+ * Rewards left, remaining time and submissions of the current cycle
+ */
+export const CycleCard = () => {
+  const [stats, setStats] = useState<CycleStats>();
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const refresh = () =>
+      getCurrentCycle()
+        .then(setStats)
+        .catch(() => setStats(undefined));
+
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const rewards = Number(stats?.rewards ?? 0);
+  const rewardsLeft = Number(stats?.rewardsLeft ?? 0);
+
+  return (
+    <Card w={{ base: "full", md: "sm" }} flexShrink={0}>
+      <Box p={{ base: 4, md: 6 }} h={"full"}>
+        <Skeleton isLoaded={!!stats} h={"full"}>
+          <VStack align={"stretch"} spacing={4} h={"full"}>
+            <Text fontSize={20} fontWeight={800}>
+              Cycle {stats?.cycle}
+            </Text>
+            <Box>
+              <HStack justify={"space-between"} mb={2}>
+                <Text fontSize={14} color={"gray.500"}>
+                  Rewards left
+                </Text>
+                <Text fontSize={14} fontWeight={600}>
+                  {rewardsLeft.toLocaleString()} / {rewards.toLocaleString()}{" "}
+                  B3TR
+                </Text>
+              </HStack>
+              <Progress
+                value={rewards > 0 ? (rewardsLeft / rewards) * 100 : 0}
+                colorScheme="primary"
+                borderRadius={"full"}
+              />
+            </Box>
+            <HStack>
+              <Stat>
+                <StatLabel>Ends in</StatLabel>
+                <StatNumber fontSize={20}>
+                  {stats?.estimatedEndTime
+                    ? formatCountdown(stats.estimatedEndTime - now)
+                    : "-"}
+                </StatNumber>
+              </Stat>
+              <Stat>
+                <StatLabel>Submissions</StatLabel>
+                <StatNumber fontSize={20}>
+                  {stats?.totalSubmissions ?? "-"}
+                </StatNumber>
+              </Stat>
+            </HStack>
+          </VStack>
+        </Skeleton>
+      </Box>
+    </Card>
+  );
+};
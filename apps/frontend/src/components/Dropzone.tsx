@@ -1,14 +1,27 @@
 import { useCallback } from "react";
+import axios from "axios";
 import { useDropzone } from "react-dropzone";
 import { Box, HStack, Text, VStack } from "@chakra-ui/react";
 import { ScanIcon } from "./Icon";
-import { blobToBase64, getDeviceId, resizeImage } from "../util";
-import { useWallet } from "@vechain/dapp-kit-react";
-import { submitReceipt } from "../networking";
+import {
+  blobToBase64,
+  buildSubmissionMessage,
+  getDeviceId,
+  hashImage,
+  resizeImage,
+} from "../util";
+import { useConnex, useWallet } from "@vechain/dapp-kit-react";
+import {
+  createNonce,
+  submitReceipt,
+  SubmissionTimeoutError,
+  watchSubmission,
+} from "../networking";
 import { useDisclosure, useSubmission } from "../hooks";
 
 export const Dropzone = () => {
   const { account } = useWallet();
+  const { vendor } = useConnex();
 
   const { setIsLoading, setResponse } = useSubmission();
   const { onOpen } = useDisclosure();
@@ -46,22 +59,49 @@ export const Dropzone = () => {
       const deviceID = await getDeviceId();
 
       try {
+        // The wallet signs the image hash with a nonce issued by the backend, proving it owns the address
+        const { nonce } = await createNonce(account);
+        const message = {
+          purpose: "identification" as const,
+          payload: {
+            type: "text" as const,
+            content: buildSubmissionMessage(
+              await hashImage(base64Image),
+              nonce,
+            ),
+          },
+        };
+        const { annex, signature } = await vendor
+          .sign("cert", message)
+          .signer(account)
+          .request();
+
         const response = await submitReceipt({
           address: account,
           deviceID,
           image: base64Image,
+          nonce,
+          certificate: { ...message, ...annex, signature },
         });
 
-        console.log(response);
-
         setResponse(response);
+
+        // The receipt is validated and rewarded in the background
+        await watchSubmission(response.id, setResponse);
       } catch (error) {
-        alert("Error submitting receipt");
+        // Submissions are paused when there are not enough rewards left, the backend explains why
+        if (axios.isAxiosError(error) && error.response?.status === 503) {
+          alert(error.response.data.message);
+        } else if (error instanceof SubmissionTimeoutError) {
+          alert(error.message);
+        } else {
+          alert("Error submitting receipt");
+        }
       } finally {
         setIsLoading(false);
       }
     },
-    [account, onOpen, setIsLoading, setResponse],
+    [account, onOpen, setIsLoading, setResponse, vendor],
   );
 
   return (
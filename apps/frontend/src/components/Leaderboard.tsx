@@ -0,0 +1,94 @@
+import { useEffect, useState } from "react";
+import {
+  Box,
+  Button,
+  ButtonGroup,
+  Card,
+  HStack,
+  Skeleton,
+  Text,
+  VStack,
+} from "@chakra-ui/react";
+import { useWallet } from "@vechain/dapp-kit-react";
+import { humanAddress } from "@repo/utils/FormattingUtils";
+import { AddressIcon } from "./Icon";
+import { Leaderboard as LeaderboardData, getLeaderboard } from "../networking";
+
+type Period = "current" | "all";
+
+/**
+ * Top contributors of the current cycle or of all cycles, participants who opted out are left out by the backend
+ */
+export const Leaderboard = () => {
+  const { account } = useWallet();
+  const [period, setPeriod] = useState<Period>("current");
+  const [leaderboard, setLeaderboard] = useState<LeaderboardData>();
+
+  useEffect(() => {
+    setLeaderboard(undefined);
+    getLeaderboard(period === "current" ? "current" : undefined)
+      .then(setLeaderboard)
+      .catch(() => setLeaderboard({ entries: [] }));
+  }, [period]);
+
+  return (
+    <Card mt={3} w={"full"}>
+      <Box p={{ base: 4, md: 6 }}>
+        <HStack justify={"space-between"} mb={4}>
+          <Text fontSize={20} fontWeight={800}>
+            Leaderboard
+          </Text>
+          <ButtonGroup size={"sm"} isAttached variant={"outline"}>
+            <Button
+              isActive={period === "current"}
+              onClick={() => setPeriod("current")}
+            >
+              This cycle
+            </Button>
+            <Button
+              isActive={period === "all"}
+              onClick={() => setPeriod("all")}
+            >
+              All time
+            </Button>
+          </ButtonGroup>
+        </HStack>
+        <Skeleton isLoaded={!!leaderboard} minH={20}>
+          <VStack align={"stretch"} spacing={2}>
+            {leaderboard?.entries.length === 0 && (
+              <Text color={"gray.500"}>No rewarded submissions yet.</Text>
+            )}
+            {leaderboard?.entries.map((entry) => (
+              <HStack
+                key={entry.address}
+                p={2}
+                borderRadius={12}
+                bg={
+                  entry.address === account?.toLowerCase()
+                    ? "primary.50"
+                    : undefined
+                }
+              >
+                <Text w={8} fontWeight={700}>
+                  #{entry.rank}
+                </Text>
+                <AddressIcon
+                  address={entry.address}
+                  boxSize={8}
+                  rounded={"full"}
+                />
+                <Text flex={1}>{humanAddress(entry.address, 4, 6)}</Text>
+                <Text color={"gray.500"} fontSize={14}>
+                  {entry.submissions} receipts
+                </Text>
+                <Text fontWeight={600} minW={28} textAlign={"right"}>
+                  {Number(entry.earned).toLocaleString()} B3TR
+                </Text>
+              </HStack>
+            ))}
+          </VStack>
+        </Skeleton>
+      </Box>
+    </Card>
+  );
+};
@@ -1,6 +1,13 @@
-import { Box, Container, HStack, Image } from "@chakra-ui/react";
+import { Box, Button, Container, HStack, Image } from "@chakra-ui/react";
+import { useWallet } from "@vechain/dapp-kit-react";
+import { FaClockRotateLeft } from "react-icons/fa6";
 import { ConnectWalletButton } from "./ConnectWalletButton";
+import { useActivityDisclosure } from "../hooks";
+
 export const Navbar = () => {
+  const { account } = useWallet();
+  const { onOpen } = useActivityDisclosure();
+
   return (
     <Box
       px={0}
@@ -25,6 +32,17 @@ export const Navbar = () => {
         </HStack>
 
         <HStack flex={1} spacing={4} justifyContent={"end"}>
+          {account && (
+            <Button
+              onClick={onOpen}
+              rounded={"full"}
+              variant={"ghost"}
+              size="md"
+              leftIcon={<FaClockRotateLeft />}
+            >
+              My activity
+            </Button>
+          )}
           <ConnectWalletButton />
         </HStack>
       </Container>
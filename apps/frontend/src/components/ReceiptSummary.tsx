@@ -0,0 +1,54 @@
+import { Box, Divider, HStack, Text, VStack } from "@chakra-ui/react";
+import { Validation } from "../networking";
+
+type Props = {
+  validation: Validation;
+};
+
+const formatAmount = (amount: number, currency?: string | null) =>
+  currency ? `${amount.toFixed(2)} ${currency}` : amount.toFixed(2);
+
+/**
+ * Shows the data the AI read from the receipt
+ */
+export const ReceiptSummary = ({ validation }: Props) => {
+  const { storeName, purchaseDate, currency, total, lineItems } = validation;
+
+  if (!storeName && !purchaseDate && total == null && !lineItems?.length) {
+    return null;
+  }
+
+  return (
+    <Box w={"full"} px={6} py={3} bg={"whiteAlpha.700"} borderRadius={12}>
+      <VStack align={"stretch"} spacing={1}>
+        <HStack justifyContent={"space-between"}>
+          <Text fontSize={14} fontWeight={600}>
+            {storeName ?? "Unknown store"}
+          </Text>
+          {purchaseDate && <Text fontSize={14}>{purchaseDate}</Text>}
+        </HStack>
+        {lineItems?.map((item, index) => (
+          <HStack key={index} justifyContent={"space-between"}>
+            <Text fontSize={12}>
+              {item.quantity} x {item.name}
+            </Text>
+            <Text fontSize={12}>{formatAmount(item.price, currency)}</Text>
+          </HStack>
+        ))}
+        {total != null && (
+          <>
+            <Divider />
+            <HStack justifyContent={"space-between"}>
+              <Text fontSize={14} fontWeight={600}>
+                Total
+              </Text>
+              <Text fontSize={14} fontWeight={600}>
+                {formatAmount(total, currency)}
+              </Text>
+            </HStack>
+          </>
+        )}
+      </VStack>
+    </Box>
+  );
+};
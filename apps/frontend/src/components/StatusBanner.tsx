@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react";
+import {
+  Alert,
+  AlertDescription,
+  AlertIcon,
+  AlertTitle,
+} from "@chakra-ui/react";
+import { Status, getStatus } from "../networking";
+
+// The backend caches the balances, polling more often would not bring fresher data
+const REFRESH_INTERVAL = 60000;
+
+/**
+ * Warns participants when the backend refuses submissions, e.g. when there are no rewards left in the cycle
+ */
+export const StatusBanner = () => {
+  const [status, setStatus] = useState<Status>();
+
+  useEffect(() => {
+    const refresh = () =>
+      getStatus()
+        .then(setStatus)
+        .catch(() => setStatus(undefined));
+
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!status || status.acceptingSubmissions) return null;
+
+  return (
+    <Alert status="warning" borderRadius={16} mb={4}>
+      <AlertIcon />
+      <AlertTitle>Submissions are paused</AlertTitle>
+      <AlertDescription>{status.reason}</AlertDescription>
+    </Alert>
+  );
+};
@@ -8,9 +8,9 @@ import {
   Image,
 } from "@chakra-ui/react";
 import { useDisclosure, useSubmission } from "../hooks";
-import loaderAnimation from "../assets/lottie/loader-json.json";
-import Lottie from "react-lottie";
 import { AirdropIcon, AlertIcon } from "./Icon";
+import { ReceiptSummary } from "./ReceiptSummary";
+import { SubmissionProgress } from "./SubmissionProgress";
 import { useMemo } from "react";
 
 export const SubmissionModal = () => {
@@ -18,7 +18,7 @@ export const SubmissionModal = () => {
   const { isOpen, onClose } = useDisclosure();
 
   const renderContent = useMemo(() => {
-    const isValid = response?.validation.validityFactor === 1;
+    const isValid = response?.status === "rewarded";
 
     return isValid ? (
       <VStack
@@ -30,6 +30,7 @@ export const SubmissionModal = () => {
         borderRadius={16}
         justifyContent={"center"}
         alignItems={"center"}
+        pb={4}
       >
         <AirdropIcon size={200} color="#373EDF" />
         <Text fontSize={32} fontWeight={600}>
@@ -37,10 +38,13 @@ export const SubmissionModal = () => {
         </Text>
         <HStack>
           <Text fontSize={24} fontWeight={400}>
-            You've earned 1
+            You've earned {response?.reward}
           </Text>
           <Image src="b3tr-token.svg" />
         </HStack>
+        {response?.validation && (
+          <ReceiptSummary validation={response.validation} />
+        )}
       </VStack>
     ) : (
       <VStack
@@ -59,9 +63,14 @@ export const SubmissionModal = () => {
         </Text>
         <HStack px={4}>
           <Text fontSize={14} fontWeight={400} textAlign={"center"}>
-            {response?.validation.descriptionOfAnalysis}
+            {response?.validation?.descriptionOfAnalysis}
           </Text>
         </HStack>
+        {response?.reason && (
+          <Text px={4} fontSize={14} fontWeight={600} textAlign={"center"}>
+            {response.reason}
+          </Text>
+        )}
       </VStack>
     );
   }, [response]);
@@ -76,17 +85,7 @@ export const SubmissionModal = () => {
     >
       <ModalOverlay />
       <ModalContent minH={"40vh"} minW={"40vh"} borderRadius={16}>
-        {isLoading ? (
-          <Lottie
-            options={{
-              loop: true,
-              autoplay: true,
-              animationData: loaderAnimation,
-            }}
-          />
-        ) : (
-          renderContent
-        )}
+        {isLoading ? <SubmissionProgress response={response} /> : renderContent}
       </ModalContent>
     </Modal>
   );
@@ -0,0 +1,76 @@
+import { HStack, Spinner, Text, VStack } from "@chakra-ui/react";
+import { FaCircleCheck, FaRegCircle } from "react-icons/fa6";
+import { Response } from "../networking";
+
+type Props = {
+  response: Response | null;
+};
+
+type Step = {
+  label: string;
+  isDone: boolean;
+  isActive: boolean;
+};
+
+const getSteps = (response: Response | null): Step[] => {
+  const hasVerdict = Boolean(response?.validation);
+  const isSent = Boolean(response?.txId);
+  const isConfirmed = response?.status === "rewarded";
+
+  return [
+    { label: "Image accepted", isDone: Boolean(response), isActive: !response },
+    {
+      label: "AI analysing your receipt",
+      isDone: hasVerdict,
+      isActive: Boolean(response) && !hasVerdict,
+    },
+    {
+      label: "Verdict received",
+      isDone: hasVerdict,
+      isActive: false,
+    },
+    {
+      label: "Transaction sent",
+      isDone: isSent,
+      isActive: response?.status === "rewarding" && !isSent,
+    },
+    {
+      label: isSent
+        ? `Transaction confirmed (${response?.txId?.slice(0, 10)}...)`
+        : "Transaction confirmed",
+      isDone: isConfirmed,
+      isActive: isSent && !isConfirmed,
+    },
+  ];
+};
+
+/**
+ * Step by step progress of a submission, updated live while it is validated and rewarded
+ */
+export const SubmissionProgress = ({ response }: Props) => {
+  return (
+    <VStack align={"stretch"} spacing={4} px={8} py={10}>
+      <Text fontSize={24} fontWeight={600} textAlign={"center"}>
+        Processing your receipt
+      </Text>
+      {getSteps(response).map((step) => (
+        <HStack key={step.label} spacing={3}>
+          {step.isActive ? (
+            <Spinner size={"sm"} color={"#373EDF"} />
+          ) : step.isDone ? (
+            <FaCircleCheck color={"#7DF000"} />
+          ) : (
+            <FaRegCircle color={"gray"} />
+          )}
+          <Text
+            fontSize={16}
+            fontWeight={step.isActive ? 600 : 400}
+            color={step.isDone || step.isActive ? "black" : "gray.500"}
+          >
+            {step.label}
+          </Text>
+        </HStack>
+      ))}
+    </VStack>
+  );
+};
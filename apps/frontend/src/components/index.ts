@@ -6,3 +6,9 @@ export * from "./Instructions";
 export * from "./Dropzone";
 export * from "./Footer";
 export * from "./SubmissionModal";
+export * from "./ReceiptSummary";
+export * from "./SubmissionProgress";
+export * from "./StatusBanner";
+export * from "./CycleCard";
+export * from "./ActivityModal";
+export * from "./Leaderboard";
@@ -1 +1,2 @@
 export const backendURL = "http://localhost:3000"; // TODO change to your backend URL
+export const explorerURL = "https://explore-testnet.vechain.org"; // Matches the network of the DAppKitProvider
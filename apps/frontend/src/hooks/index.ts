@@ -1,2 +1,4 @@
 export * from "./useSubmission";
 export * from "./useDisclosure";
+export * from "./useActivityDisclosure";
+export * from "./useSession";
@@ -0,0 +1,15 @@
+import { create } from "zustand";
+
+interface useActivityDisclosureState {
+  isOpen: boolean;
+  onOpen: () => void;
+  onClose: () => void;
+}
+
+export const useActivityDisclosure = create<useActivityDisclosureState>(
+  (set) => ({
+    isOpen: false,
+    onOpen: () => set({ isOpen: true }),
+    onClose: () => set({ isOpen: false }),
+  }),
+);
@@ -0,0 +1,45 @@
+import { useCallback } from "react";
+import axios from "axios";
+import { useConnex, useWallet } from "@vechain/dapp-kit-react";
+import { createChallenge, login } from "../networking";
+
+/**
+ * Runs requests needing a session, asking the wallet to sign in first when the backend answers 401
+ */
+export const useSession = () => {
+  const { account } = useWallet();
+  const { vendor } = useConnex();
+
+  const signIn = useCallback(async () => {
+    if (!account) throw new Error("Wallet not connected");
+
+    const { nonce, message: content } = await createChallenge(account);
+    const message = {
+      purpose: "identification" as const,
+      payload: { type: "text" as const, content },
+    };
+    const { annex, signature } = await vendor
+      .sign("cert", message)
+      .signer(account)
+      .request();
+
+    await login({ ...message, ...annex, signature }, nonce);
+  }, [account, vendor]);
+
+  const withSession = useCallback(
+    async <T>(request: () => Promise<T>): Promise<T> => {
+      try {
+        return await request();
+      } catch (error) {
+        if (!axios.isAxiosError(error) || error.response?.status !== 401)
+          throw error;
+
+        await signIn();
+        return request();
+      }
+    },
+    [signIn],
+  );
+
+  return { signIn, withSession };
+};
@@ -0,0 +1,47 @@
+import axios from "axios";
+import { Nonce } from "./createNonce";
+import { Certificate } from "./type";
+import { backendURL } from "../config";
+
+export type Challenge = Nonce & {
+  message: string;
+};
+
+export type Session = {
+  address: string;
+  expiresAt: number;
+};
+
+export const createChallenge = async (address: string): Promise<Challenge> => {
+  try {
+    const response = await axios.post(`${backendURL}/auth/challenge`, {
+      address,
+    });
+
+    return response.data;
+  } catch (error: unknown) {
+    console.error("Error creating challenge:", error);
+    throw error;
+  }
+};
+
+/**
+ * Exchanges a certificate signing the challenge for a session cookie
+ */
+export const login = async (
+  certificate: Certificate,
+  nonce: string,
+): Promise<Session> => {
+  try {
+    const response = await axios.post(
+      `${backendURL}/auth/login`,
+      { certificate, nonce },
+      { withCredentials: true },
+    );
+
+    return response.data;
+  } catch (error: unknown) {
+    console.error("Error logging in:", error);
+    throw error;
+  }
+};
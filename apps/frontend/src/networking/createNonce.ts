@@ -0,0 +1,18 @@
+import axios from "axios";
+import { backendURL } from "../config";
+
+export type Nonce = {
+  nonce: string;
+  expiresAt: number;
+};
+
+export const createNonce = async (address: string): Promise<Nonce> => {
+  try {
+    const response = await axios.post(`${backendURL}/nonces`, { address });
+
+    return response.data;
+  } catch (error: unknown) {
+    console.error("Error creating nonce:", error);
+    throw error;
+  }
+};
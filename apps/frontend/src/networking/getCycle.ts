@@ -0,0 +1,36 @@
+import axios from "axios";
+import { backendURL } from "../config";
+
+export type CycleStats = {
+  cycle: number;
+  isCurrent: boolean;
+  rewards: string;
+  rewardsLeft: string;
+  rewardsDistributed: string;
+  totalSubmissions: number;
+  startBlock?: number;
+  endBlock?: number;
+  estimatedEndTime?: number;
+};
+
+export const getCurrentCycle = async (): Promise<CycleStats> => {
+  try {
+    const response = await axios.get(`${backendURL}/cycles/current`);
+
+    return response.data;
+  } catch (error: unknown) {
+    console.error("Error getting current cycle:", error);
+    throw error;
+  }
+};
+
+export const getCycle = async (cycle: number): Promise<CycleStats> => {
+  try {
+    const response = await axios.get(`${backendURL}/cycles/${cycle}`);
+
+    return response.data;
+  } catch (error: unknown) {
+    console.error("Error getting cycle:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,32 @@
+import axios from "axios";
+import { backendURL } from "../config";
+
+export type LeaderboardEntry = {
+  rank: number;
+  address: string;
+  submissions: number;
+  earned: string;
+};
+
+export type Leaderboard = {
+  cycle?: number;
+  entries: LeaderboardEntry[];
+};
+
+/**
+ * @param cycle A cycle number or `current`, all cycles when undefined
+ */
+export const getLeaderboard = async (
+  cycle?: number | "current",
+): Promise<Leaderboard> => {
+  try {
+    const response = await axios.get(`${backendURL}/leaderboard`, {
+      params: { cycle },
+    });
+
+    return response.data;
+  } catch (error: unknown) {
+    console.error("Error getting leaderboard:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,22 @@
+import axios from "axios";
+import { backendURL } from "../config";
+
+export type Status = {
+  acceptingSubmissions: boolean;
+  reason?: string;
+  cycle: number;
+  rewardsLeft: string;
+  availableFunds: string;
+  updatedAt: number;
+};
+
+export const getStatus = async (): Promise<Status> => {
+  try {
+    const response = await axios.get(`${backendURL}/status`);
+
+    return response.data;
+  } catch (error: unknown) {
+    console.error("Error getting status:", error);
+    throw error;
+  }
+};
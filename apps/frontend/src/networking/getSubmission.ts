@@ -0,0 +1,58 @@
+import axios from "axios";
+import { Response, SubmissionStatus } from "./submitReceipt";
+import { backendURL } from "../config";
+
+export const FINAL_STATUSES: SubmissionStatus[] = [
+  "rejected",
+  "rewarded",
+  "failed",
+];
+
+export const getSubmission = async (id: string): Promise<Response> => {
+  try {
+    const response = await axios.get(`${backendURL}/submissions/${id}`);
+
+    return response.data;
+  } catch (error: unknown) {
+    console.error("Error getting submission:", error);
+    throw error;
+  }
+};
+
+/**
+ * The submission was still being processed when waitForSubmission gave up, it may still be rewarded later
+ */
+export class SubmissionTimeoutError extends Error {
+  constructor(id: string) {
+    super(
+      `Submission ${id} is still being processed, check your rewards again later`,
+    );
+    this.name = "SubmissionTimeoutError";
+  }
+}
+
+/**
+ * Polls the backend until the submission is rewarded, rejected or failed, rejects once the timeout (ms) passes
+ */
+export const waitForSubmission = async (
+  id: string,
+  onUpdate: (response: Response) => void,
+  interval = 2000,
+  timeout = 5 * 60 * 1000,
+): Promise<Response> => {
+  const deadline = Date.now() + timeout;
+
+  for (;;) {
+    const response = await getSubmission(id);
+    onUpdate(response);
+
+    if (FINAL_STATUSES.includes(response.status)) return response;
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) throw new SubmissionTimeoutError(id);
+
+    await new Promise((resolve) =>
+      setTimeout(resolve, Math.min(interval, remaining)),
+    );
+  }
+};
@@ -0,0 +1,49 @@
+import axios from "axios";
+import { SubmissionStatus } from "./submitReceipt";
+import { backendURL } from "../config";
+
+export type UserSubmission = {
+  id: string;
+  cycle?: number;
+  timestamp: number;
+  status: SubmissionStatus;
+  reason?: string;
+  validityFactor?: number;
+  reward?: string;
+  txId?: string;
+  confirmed: boolean;
+};
+
+export type RewardEvent = {
+  txId: string;
+  blockNumber: number;
+  timestamp: number;
+  amount: string;
+};
+
+export type UserActivity = {
+  address: string;
+  cycle: number;
+  submissionsThisCycle: number;
+  maxSubmissionsPerCycle: number;
+  submissionsLeft: number;
+  totalEarned: string;
+  hiddenFromLeaderboard: boolean;
+  submissions: UserSubmission[];
+  rewards: RewardEvent[];
+};
+
+export const getUserActivity = async (
+  address: string,
+): Promise<UserActivity> => {
+  try {
+    const response = await axios.get(
+      `${backendURL}/users/${address}/submissions`,
+    );
+
+    return response.data;
+  } catch (error: unknown) {
+    console.error("Error getting user activity:", error);
+    throw error;
+  }
+};
@@ -1 +1,10 @@
 export * from "./submitReceipt";
+export * from "./getSubmission";
+export * from "./watchSubmission";
+export * from "./createNonce";
+export * from "./getStatus";
+export * from "./getCycle";
+export * from "./getUserActivity";
+export * from "./getLeaderboard";
+export * from "./auth";
+export * from "./settings";
@@ -0,0 +1,28 @@
+import axios from "axios";
+import { backendURL } from "../config";
+
+export type UserSettings = {
+  address: string;
+  hiddenFromLeaderboard: boolean;
+  updatedAt?: number;
+};
+
+/**
+ * Requires a session, see `login`
+ */
+export const updateSettings = async (
+  changes: Pick<UserSettings, "hiddenFromLeaderboard">,
+): Promise<UserSettings> => {
+  try {
+    const response = await axios.patch(
+      `${backendURL}/users/me/settings`,
+      changes,
+      { withCredentials: true },
+    );
+
+    return response.data;
+  } catch (error: unknown) {
+    console.error("Error updating settings:", error);
+    throw error;
+  }
+};
@@ -2,11 +2,39 @@ import axios from "axios";
 import { ReceiptData } from "./type";
 import { backendURL } from "../config";
 
+export type ReceiptLineItem = {
+  name: string;
+  quantity: number;
+  price: number;
+};
+
+export type RuleResult = {
+  rule: string;
+  passed: boolean;
+  reason: string;
+};
+
+export type Validation = {
+  validityFactor: number;
+  descriptionOfAnalysis: string;
+  storeName?: string | null;
+  purchaseDate?: string | null;
+  currency?: string | null;
+  total?: number | null;
+  lineItems?: ReceiptLineItem[] | null;
+};
+
+export type SubmissionStatus =
+  "queued" | "validating" | "rejected" | "rewarding" | "rewarded" | "failed";
+
 export type Response = {
-  validation: {
-    validityFactor: number;
-    descriptionOfAnalysis: string;
-  };
+  id: string;
+  status: SubmissionStatus;
+  reason?: string;
+  validation?: Validation;
+  rules?: RuleResult[];
+  reward?: string;
+  txId?: string;
 };
 
 export const submitReceipt = async (data: ReceiptData): Promise<Response> => {
@@ -1,5 +1,19 @@
+export interface Certificate {
+  purpose: "identification" | "agreement";
+  payload: {
+    type: "text";
+    content: string;
+  };
+  domain: string;
+  timestamp: number;
+  signer: string;
+  signature: string;
+}
+
 export interface ReceiptData {
   image: string;
   address: string;
   deviceID: string;
+  nonce: string;
+  certificate: Certificate;
 }
@@ -0,0 +1,39 @@
+import { FINAL_STATUSES, waitForSubmission } from "./getSubmission";
+import { Response, SubmissionStatus } from "./submitReceipt";
+import { backendURL } from "../config";
+
+/**
+ * Follows the progress of a submission through Server-Sent Events, falling back to polling when the stream breaks
+ */
+export const watchSubmission = (
+  id: string,
+  onUpdate: (response: Response) => void,
+): Promise<Response> =>
+  new Promise((resolve, reject) => {
+    const events = new EventSource(`${backendURL}/submissions/${id}/events`);
+
+    const onEvent = (event: MessageEvent<string>) => {
+      const response: Response = JSON.parse(event.data);
+      onUpdate(response);
+
+      if (FINAL_STATUSES.includes(response.status)) {
+        events.close();
+        resolve(response);
+      }
+    };
+
+    const statuses: SubmissionStatus[] = [
+      "queued",
+      "validating",
+      "rejected",
+      "rewarding",
+      "rewarded",
+      "failed",
+    ];
+    statuses.forEach((status) => events.addEventListener(status, onEvent));
+
+    events.onerror = () => {
+      events.close();
+      waitForSubmission(id, onUpdate).then(resolve, reject);
+    };
+  });
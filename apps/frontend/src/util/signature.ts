@@ -0,0 +1,20 @@
+/**
+ * Computes the SHA-256 hash of the binary content of a base64 encoded image, like the backend does
+ * @param image Base64 image, with or without the data URL prefix
+ */
+export const hashImage = async (image: string) => {
+  const data = image.includes(",") ? image.split(",")[1] : image;
+  const bytes = Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+  const hash = await crypto.subtle.digest("SHA-256", bytes);
+
+  return Array.from(new Uint8Array(hash))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+/**
+ * Text signed by the wallet to prove it owns the address the receipt is submitted for.
+ * Must match `apps/backend/src/utils/signature.ts`.
+ */
+export const buildSubmissionMessage = (imageHash: string, nonce: string) =>
+  `Submit a receipt to EcoEarn\nImage: ${imageHash}\nNonce: ${nonce}`;
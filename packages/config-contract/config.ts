@@ -199,6 +199,19 @@ export const ECO_SOL_ABI = [
     "name": "Submission",
     "type": "event"
   },
+  {
+    "inputs": [],
+    "name": "CYCLE_MANAGER_ROLE",
+    "outputs": [
+      {
+        "internalType": "bytes32",
+        "name": "",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
   {
     "inputs": [],
     "name": "DEFAULT_ADMIN_ROLE",
@@ -212,6 +225,19 @@ export const ECO_SOL_ABI = [
     "stateMutability": "view",
     "type": "function"
   },
+  {
+    "inputs": [],
+    "name": "VALIDATOR_ROLE",
+    "outputs": [
+      {
+        "internalType": "bytes32",
+        "name": "",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
   {
     "inputs": [],
     "name": "appId",
@@ -401,6 +427,49 @@ export const ECO_SOL_ABI = [
     "stateMutability": "nonpayable",
     "type": "function"
   },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "participant",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      },
+      {
+        "internalType": "string[]",
+        "name": "proofTypes",
+        "type": "string[]"
+      },
+      {
+        "internalType": "string[]",
+        "name": "proofValues",
+        "type": "string[]"
+      },
+      {
+        "internalType": "string[]",
+        "name": "impactCodes",
+        "type": "string[]"
+      },
+      {
+        "internalType": "uint256[]",
+        "name": "impactValues",
+        "type": "uint256[]"
+      },
+      {
+        "internalType": "string",
+        "name": "description",
+        "type": "string"
+      }
+    ],
+    "name": "registerValidSubmissionWithProof",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
   {
     "inputs": [
       {